@@ -7,6 +7,9 @@
 import { describe, it, expect } from "vitest";
 import * as ast from "./ast";
 import * as token from "../token/token";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+import { walk } from "./visitor";
 
 describe("AST", () => {
   it("应该正确生成字符串表示", () => {
@@ -91,5 +94,38 @@ describe("AST", () => {
     expect(trueExpr.toString()).toBe("true");
     expect(falseExpr.toString()).toBe("false");
   });
-});
 
+  it("字符串字面量应该加上引号并重新转义", () => {
+    const str = new ast.StringLiteral(
+      { Type: token.STRING, Literal: 'say "hi"\n' },
+      'say "hi"\n\\\t\u0001'
+    );
+
+    expect(str.toString()).toBe(String.raw`"say \"hi\"\n\\\t\u{1}"`);
+  });
+
+  it("每个节点的kind应该等于类名", () => {
+    const input = [
+      "let [a, ...b] = {1: 2.5};",
+      'let s = "${true}";',
+      "let m = macro(x) { x };",
+      "while (!a) { break; continue; };",
+      "for (v in [a]) { v += 1 };",
+      "return if (a) { fn(x) { f(x + 1)[0] } } else { a };",
+      'match (a) { _ => 1, 2 => 3, n if n => [m], {"k": k} => k }',
+      "let x = ;",
+      "let = 1;",
+    ].join("\n");
+    const program = new Parser(new Lexer(input)).parseProgram();
+
+    const kinds = new Set<string>();
+    walk(program, {
+      enter(node) {
+        expect(node.kind).toBe(node.constructor.name);
+        kinds.add(node.kind);
+      },
+    });
+
+    expect(kinds.size).toBe(34);
+  });
+});
@@ -19,6 +19,19 @@ import * as token from "../token/token";
  * 提供获取Token字面量和字符串表示的方法
  */
 export interface Node {
+  /**
+   * 节点的种类，内置节点的kind等于类名，例如 "LetStatement"
+   * 对AnyNode按kind使用switch时，TypeScript可以收窄到具体的节点类，并检查是否处理了所有种类
+   * 自定义节点应该使用不与内置节点重复的名字
+   */
+  readonly kind: string;
+
+  /**
+   * 节点在源代码中的位置范围
+   * 由Parser在解析时填写，手工构造的节点可能没有
+   */
+  span?: token.Span;
+
   /**
    * 返回与该节点关联的Token的字面量值
    * 主要用于调试和错误信息
@@ -54,6 +67,17 @@ export interface Expression extends Node {
   expressionNode(): void;  // 标记方法，用于类型区分
 }
 
+/**
+ * Pattern接口
+ * 
+ * 所有模式节点都实现此接口
+ * 模式出现在match表达式的分支中，描述被匹配的值的结构，并可以把其中的部分绑定到变量
+ * 例如：_、x、1、[head, ...tail]、{"type": "circle", "r": r}
+ */
+export interface Pattern extends Node {
+  patternNode(): void;  // 标记方法，用于类型区分
+}
+
 /**
  * Program类
  * 
@@ -61,7 +85,9 @@ export interface Expression extends Node {
  * 一个程序由多个语句组成
  */
 export class Program implements Node {
+  readonly kind = "Program";
   statements: Statement[] = [];
+  span?: token.Span;
 
   /**
    * 获取程序的Token字面量
@@ -94,13 +120,17 @@ export class Program implements Node {
  * 
  * 表示变量声明语句：let <identifier> = <expression>;
  * 例如：let x = 5;
+ * 
+ * 也可以用数组模式或哈希表模式解构：let [a, ...rest] = arr; let {"name": n} = person;
  */
 export class LetStatement implements Statement {
+  readonly kind = "LetStatement";
   token: token.Token;        // LET token
-  name: Identifier;          // 变量名
+  span?: token.Span;         // 源代码位置范围
+  name: BindingTarget;       // 变量名或解构模式
   value: Expression;         // 变量值表达式
 
-  constructor(token: token.Token, name: Identifier, value: Expression) {
+  constructor(token: token.Token, name: BindingTarget, value: Expression) {
     this.token = token;
     this.name = name;
     this.value = value;
@@ -131,7 +161,9 @@ export class LetStatement implements Statement {
  * 例如：return 5;
  */
 export class ReturnStatement implements Statement {
+  readonly kind = "ReturnStatement";
   token: token.Token;           // RETURN token
+  span?: token.Span;            // 源代码位置范围
   returnValue: Expression;      // 返回值表达式
 
   constructor(token: token.Token, returnValue: Expression) {
@@ -162,7 +194,9 @@ export class ReturnStatement implements Statement {
  * 例如：x + 10;
  */
 export class ExpressionStatement implements Statement {
+  readonly kind = "ExpressionStatement";
   token: token.Token;        // 表达式的第一个token
+  span?: token.Span;         // 源代码位置范围
   expression: Expression;    // 表达式
 
   constructor(token: token.Token, expression: Expression) {
@@ -191,7 +225,9 @@ export class ExpressionStatement implements Statement {
  * 例如：{ let x = 5; return x; }
  */
 export class BlockStatement implements Statement {
+  readonly kind = "BlockStatement";
   token: token.Token;           // { token
+  span?: token.Span;            // 源代码位置范围
   statements: Statement[] = []; // 代码块中的语句列表
 
   constructor(token: token.Token) {
@@ -213,8 +249,187 @@ export class BlockStatement implements Statement {
   }
 }
 
+/**
+ * WhileStatement类
+ * 
+ * 表示while循环语句，条件为真时重复执行循环体
+ * 例如：while (x < 10) { puts(x); }
+ */
+export class WhileStatement implements Statement {
+  readonly kind = "WhileStatement";
+  token: token.Token;        // while token
+  span?: token.Span;         // 源代码位置范围
+  condition: Expression;     // 循环条件
+  body: BlockStatement;      // 循环体
+
+  constructor(token: token.Token, condition: Expression, body: BlockStatement) {
+    this.token = token;
+    this.condition = condition;
+    this.body = body;
+  }
+
+  statementNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "while" + this.condition.toString() + " " + this.body.toString();
+  }
+}
+
+/**
+ * ForInStatement类
+ * 
+ * 表示for-in循环语句，依次把数组的元素（或哈希表的键）绑定到循环变量上执行循环体
+ * 例如：for (x in [1, 2, 3]) { puts(x); }
+ */
+export class ForInStatement implements Statement {
+  readonly kind = "ForInStatement";
+  token: token.Token;        // for token
+  span?: token.Span;         // 源代码位置范围
+  variable: Identifier;      // 循环变量
+  iterable: Expression;      // 被遍历的数组或哈希表
+  body: BlockStatement;      // 循环体
+
+  constructor(
+    token: token.Token,
+    variable: Identifier,
+    iterable: Expression,
+    body: BlockStatement
+  ) {
+    this.token = token;
+    this.variable = variable;
+    this.iterable = iterable;
+    this.body = body;
+  }
+
+  statementNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return (
+      "for (" +
+      this.variable.toString() +
+      " in " +
+      this.iterable.toString() +
+      ") " +
+      this.body.toString()
+    );
+  }
+}
+
+/**
+ * BreakStatement类
+ * 
+ * 表示break语句，立即结束最近的一层循环
+ * 例如：break;
+ */
+export class BreakStatement implements Statement {
+  readonly kind = "BreakStatement";
+  token: token.Token;   // break token
+  span?: token.Span;    // 源代码位置范围
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  statementNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "break;";
+  }
+}
+
+/**
+ * ContinueStatement类
+ * 
+ * 表示continue语句，跳过本次迭代剩余的部分，进入最近一层循环的下一次迭代
+ * 例如：continue;
+ */
+export class ContinueStatement implements Statement {
+  readonly kind = "ContinueStatement";
+  token: token.Token;   // continue token
+  span?: token.Span;    // 源代码位置范围
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  statementNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "continue;";
+  }
+}
+
+/**
+ * ErrorStatement类
+ * 
+ * 表示一条无法解析的语句
+ * Parser在语句出错后会跳到下一个语句边界继续解析，被跳过的Token都归入这个节点，
+ * 这样即使有语法错误，得到的Program也保留了其余语句，可以交给工具继续使用
+ */
+export class ErrorStatement implements Statement {
+  readonly kind = "ErrorStatement";
+  token: token.Token;   // 出错语句的第一个token
+  span?: token.Span;    // 被跳过的源代码范围
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  statementNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "<error>";
+  }
+}
+
 // ==================== 表达式节点 ====================
 
+/**
+ * ErrorExpression类
+ * 
+ * 表示一个无法解析的表达式，用于占据出错子树的位置
+ * 例如：let x = add(1, 2; 中的值会被解析为ErrorExpression，而LetStatement本身得以保留
+ */
+export class ErrorExpression implements Expression {
+  readonly kind = "ErrorExpression";
+  token: token.Token;   // 出错表达式的第一个token
+  span?: token.Span;    // 被跳过的源代码范围
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  expressionNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "<error>";
+  }
+}
+
 /**
  * Identifier类
  * 
@@ -222,7 +437,9 @@ export class BlockStatement implements Statement {
  * 例如：x, add, foobar
  */
 export class Identifier implements Expression {
+  readonly kind = "Identifier";
   token: token.Token;  // IDENT token
+  span?: token.Span;   // 源代码位置范围
   value: string;       // 标识符名称
 
   constructor(token: token.Token, value: string) {
@@ -248,7 +465,9 @@ export class Identifier implements Expression {
  * 例如：5, 42, 100
  */
 export class IntegerLiteral implements Expression {
+  readonly kind = "IntegerLiteral";
   token: token.Token;  // INT token
+  span?: token.Span;   // 源代码位置范围
   value: number;       // 整数值
 
   constructor(token: token.Token, value: number) {
@@ -267,14 +486,47 @@ export class IntegerLiteral implements Expression {
   }
 }
 
+/**
+ * FloatLiteral类
+ * 
+ * 表示浮点数字面量
+ * 例如：3.14, 0.5, 1e-9
+ */
+export class FloatLiteral implements Expression {
+  readonly kind = "FloatLiteral";
+  token: token.Token;  // FLOAT token
+  span?: token.Span;   // 源代码位置范围
+  value: number;       // 浮点数值
+
+  constructor(token: token.Token, value: number) {
+    this.token = token;
+    this.value = value;
+  }
+
+  expressionNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return this.token.Literal;
+  }
+}
+
 /**
  * StringLiteral类
  * 
  * 表示字符串字面量
  * 例如："hello", "world"
+ * 
+ * value是解码转义序列之后的字符串值，toString会重新加上引号并转义，
+ * 保证输出可以被重新解析为相同的AST
  */
 export class StringLiteral implements Expression {
+  readonly kind = "StringLiteral";
   token: token.Token;  // STRING token
+  span?: token.Span;   // 源代码位置范围
   value: string;       // 字符串值
 
   constructor(token: token.Token, value: string) {
@@ -289,8 +541,45 @@ export class StringLiteral implements Expression {
   }
 
   toString(): string {
+    return quoteString(this.value);
+  }
+}
+
+/**
+ * InterpolatedString类
+ * 
+ * 表示带插值的字符串字面量
+ * 例如："Hello, ${name}, you are ${age + 1}"
+ * 
+ * strings是插值之间的字符串片段（已解码转义序列），总比expressions多一个：
+ * 上面的例子中strings为 ["Hello, ", ", you are ", ""]，expressions为 [name, (age + 1)]
+ */
+export class InterpolatedString implements Expression {
+  readonly kind = "InterpolatedString";
+  token: token.Token;          // TEMPLATE_HEAD token
+  span?: token.Span;           // 源代码位置范围
+  strings: string[];           // 字符串片段
+  expressions: Expression[];   // 嵌入的表达式
+
+  constructor(token: token.Token, strings: string[] = [], expressions: Expression[] = []) {
+    this.token = token;
+    this.strings = strings;
+    this.expressions = expressions;
+  }
+
+  expressionNode(): void {}
+  
+  tokenLiteral(): string {
     return this.token.Literal;
   }
+
+  toString(): string {
+    let out = '"' + escapeString(this.strings[0] ?? "");
+    this.expressions.forEach((exp, i) => {
+      out += "${" + exp.toString() + "}" + escapeString(this.strings[i + 1] ?? "");
+    });
+    return out + '"';
+  }
 }
 
 /**
@@ -300,7 +589,9 @@ export class StringLiteral implements Expression {
  * 例如：true, false
  */
 export class BooleanLiteral implements Expression {
+  readonly kind = "BooleanLiteral";
   token: token.Token;  // TRUE 或 FALSE token
+  span?: token.Span;   // 源代码位置范围
   value: boolean;      // 布尔值
 
   constructor(token: token.Token, value: boolean) {
@@ -326,7 +617,9 @@ export class BooleanLiteral implements Expression {
  * 例如：[1, 2, 3], [x, y, z]
  */
 export class ArrayLiteral implements Expression {
+  readonly kind = "ArrayLiteral";
   token: token.Token;           // [ token
+  span?: token.Span;            // 源代码位置范围
   elements: Expression[] = [];  // 数组元素表达式列表
 
   constructor(token: token.Token) {
@@ -352,7 +645,9 @@ export class ArrayLiteral implements Expression {
  * 例如：{"name": "Monkey", "age": 1}
  */
 export class HashLiteral implements Expression {
+  readonly kind = "HashLiteral";
   token: token.Token;                              // { token
+  span?: token.Span;                               // 源代码位置范围
   pairs: Map<Expression, Expression> = new Map();  // 键值对映射
 
   constructor(token: token.Token) {
@@ -381,7 +676,9 @@ export class HashLiteral implements Expression {
  * 例如：-5, !true
  */
 export class PrefixExpression implements Expression {
+  readonly kind = "PrefixExpression";
   token: token.Token;     // 前缀运算符token（如!或-）
+  span?: token.Span;      // 源代码位置范围
   operator: string;       // 运算符字符串
   right: Expression;      // 右侧表达式
 
@@ -409,7 +706,9 @@ export class PrefixExpression implements Expression {
  * 例如：5 + 5, x * y, a == b
  */
 export class InfixExpression implements Expression {
+  readonly kind = "InfixExpression";
   token: token.Token;     // 运算符token
+  span?: token.Span;      // 源代码位置范围
   left: Expression;       // 左侧表达式
   operator: string;       // 运算符字符串
   right: Expression;      // 右侧表达式
@@ -445,23 +744,70 @@ export class InfixExpression implements Expression {
   }
 }
 
+/**
+ * AssignExpression类
+ * 
+ * 表示赋值表达式，更新已经存在的绑定或数组、哈希表中的元素，表达式的值就是赋给目标的新值
+ * 例如：x = 5, count += 1, arr[0] = 1
+ * 
+ * target是Identifier或IndexExpression，operator是 =、+=、-=、*= 或 /=
+ */
+export class AssignExpression implements Expression {
+  readonly kind = "AssignExpression";
+  token: token.Token;    // 赋值运算符token
+  span?: token.Span;     // 源代码位置范围
+  target: Expression;    // 被赋值的目标（标识符或索引表达式）
+  operator: string;      // 赋值运算符
+  value: Expression;     // 右侧表达式
+
+  constructor(token: token.Token, target: Expression, operator: string, value: Expression) {
+    this.token = token;
+    this.target = target;
+    this.operator = operator;
+    this.value = value;
+  }
+
+  expressionNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return (
+      "(" +
+      this.target.toString() +
+      " " +
+      this.operator +
+      " " +
+      this.value.toString() +
+      ")"
+    );
+  }
+}
+
 /**
  * IfExpression类
  * 
  * 表示条件表达式
  * 例如：if (x > 5) { return true; } else { return false; }
+ * 
+ * else if 链表示为嵌套的IfExpression：alternative是else后面的整个if表达式
+ * 例如：if (a) { 1 } else if (b) { 2 } else { 3 }
  */
 export class IfExpression implements Expression {
-  token: token.Token;              // IF token
-  condition: Expression;           // 条件表达式
-  consequence: BlockStatement;     // 条件为真时执行的代码块
-  alternative?: BlockStatement;    // 可选的else代码块
+  readonly kind = "IfExpression";
+  token: token.Token;                            // IF token
+  span?: token.Span;                             // 源代码位置范围
+  condition: Expression;                         // 条件表达式
+  consequence: BlockStatement;                   // 条件为真时执行的代码块
+  alternative?: BlockStatement | IfExpression;   // 可选的else代码块或else if
 
   constructor(
     token: token.Token,
     condition: Expression,
     consequence: BlockStatement,
-    alternative?: BlockStatement
+    alternative?: BlockStatement | IfExpression
   ) {
     this.token = token;
     this.condition = condition;
@@ -490,10 +836,14 @@ export class IfExpression implements Expression {
  * 
  * 表示函数字面量（函数定义）
  * 例如：fn(x, y) { return x + y; }
+ * 
+ * 参数可以是解构模式：fn([x, y], {"name": n}) { ... }
  */
 export class FunctionLiteral implements Expression {
-  token: token.Token;              // FN token
-  parameters: Identifier[] = [];   // 参数列表
+  readonly kind = "FunctionLiteral";
+  token: token.Token;                 // FN token
+  span?: token.Span;                  // 源代码位置范围
+  parameters: BindingTarget[] = [];   // 参数列表
   body: BlockStatement;            // 函数体
 
   constructor(token: token.Token, body: BlockStatement) {
@@ -518,6 +868,43 @@ export class FunctionLiteral implements Expression {
   }
 }
 
+/**
+ * MacroLiteral类
+ * 
+ * 表示宏字面量（宏定义）
+ * 例如：macro(cond, body) { quote(if (!(unquote(cond))) { unquote(body) }) }
+ * 
+ * 宏的参数是未求值的AST节点，宏体返回的quote值会替换掉宏调用
+ */
+export class MacroLiteral implements Expression {
+  readonly kind = "MacroLiteral";
+  token: token.Token;              // MACRO token
+  span?: token.Span;               // 源代码位置范围
+  parameters: Identifier[] = [];   // 参数列表
+  body: BlockStatement;            // 宏体
+
+  constructor(token: token.Token, body: BlockStatement) {
+    this.token = token;
+    this.body = body;
+  }
+
+  expressionNode(): void {}
+  
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    const params = this.parameters.map((p) => p.toString());
+    let out = this.tokenLiteral();
+    out += "(";
+    out += params.join(", ");
+    out += ") ";
+    out += this.body.toString();
+    return out;
+  }
+}
+
 /**
  * CallExpression类
  * 
@@ -525,7 +912,9 @@ export class FunctionLiteral implements Expression {
  * 例如：add(2, 3), myFunction(x, y, z)
  */
 export class CallExpression implements Expression {
+  readonly kind = "CallExpression";
   token: token.Token;            // ( token
+  span?: token.Span;             // 源代码位置范围
   func: Expression;              // 函数标识符或函数字面量
   args: Expression[] = [];       // 参数表达式列表
 
@@ -557,7 +946,9 @@ export class CallExpression implements Expression {
  * 例如：array[0], hash["key"]
  */
 export class IndexExpression implements Expression {
+  readonly kind = "IndexExpression";
   token: token.Token;     // [ token
+  span?: token.Span;      // 源代码位置范围
   left: Expression;       // 被索引的表达式（数组或哈希表）
   index: Expression;      // 索引表达式
 
@@ -580,3 +971,352 @@ export class IndexExpression implements Expression {
   }
 }
 
+// ==================== 模式匹配 ====================
+
+/**
+ * WildcardPattern类
+ * 
+ * 表示通配符模式 _，匹配任何值，不绑定变量
+ */
+export class WildcardPattern implements Pattern {
+  readonly kind = "WildcardPattern";
+  token: token.Token;    // _ token
+  span?: token.Span;     // 源代码位置范围
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  patternNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return "_";
+  }
+}
+
+/**
+ * IdentifierPattern类
+ * 
+ * 表示变量绑定模式，匹配任何值，并把值绑定到变量上
+ * 例如：x
+ */
+export class IdentifierPattern implements Pattern {
+  readonly kind = "IdentifierPattern";
+  token: token.Token;    // 标识符token
+  span?: token.Span;     // 源代码位置范围
+  name: Identifier;      // 绑定的变量名
+
+  constructor(token: token.Token, name: Identifier) {
+    this.token = token;
+    this.name = name;
+  }
+
+  patternNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    return this.name.toString();
+  }
+}
+
+/**
+ * LiteralPattern类
+ * 
+ * 表示字面量模式，匹配与字面量相等的值
+ * 例如：1, -2.5, "circle", true
+ * 
+ * value是整数、浮点数、字符串或布尔值字面量，负数是以 - 为运算符的PrefixExpression
+ */
+export class LiteralPattern implements Pattern {
+  readonly kind = "LiteralPattern";
+  token: token.Token;    // 字面量的第一个token
+  span?: token.Span;     // 源代码位置范围
+  value: Expression;     // 字面量表达式
+
+  constructor(token: token.Token, value: Expression) {
+    this.token = token;
+    this.value = value;
+  }
+
+  patternNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    // 负数不加括号，保证输出可以被重新解析为模式
+    if (this.value instanceof PrefixExpression) {
+      return this.value.operator + this.value.right.toString();
+    }
+    return this.value.toString();
+  }
+}
+
+/**
+ * ArrayPattern类
+ * 
+ * 表示数组模式，逐个匹配数组元素
+ * 例如：[], [x, y], [head, ...tail]
+ * 
+ * 没有rest时数组长度必须与模式完全相同；
+ * 有rest时数组长度至少为elements的长度，剩余元素组成新数组绑定到rest上（rest为 _ 时丢弃）
+ */
+export class ArrayPattern implements Pattern {
+  readonly kind = "ArrayPattern";
+  token: token.Token;           // [ token
+  span?: token.Span;            // 源代码位置范围
+  elements: Pattern[] = [];     // 元素模式列表
+  rest?: Identifier;            // 可选的剩余元素变量
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  patternNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    const parts = this.elements.map((e) => e.toString());
+    if (this.rest) {
+      parts.push("..." + this.rest.toString());
+    }
+    return "[" + parts.join(", ") + "]";
+  }
+}
+
+/**
+ * HashPattern类
+ * 
+ * 表示哈希表模式，按键匹配哈希表中的值
+ * 例如：{"type": "circle", "r": r}
+ * 
+ * 键必须是字面量；模式中列出的键都必须存在，没有列出的键会被忽略
+ */
+export class HashPattern implements Pattern {
+  readonly kind = "HashPattern";
+  token: token.Token;                            // { token
+  span?: token.Span;                             // 源代码位置范围
+  pairs: Map<Expression, Pattern> = new Map();   // 键到值模式的映射
+
+  constructor(token: token.Token) {
+    this.token = token;
+  }
+
+  patternNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    const pairs: string[] = [];
+    this.pairs.forEach((value, key) => {
+      pairs.push(key.toString() + ": " + value.toString());
+    });
+    return "{" + pairs.join(", ") + "}";
+  }
+}
+
+/**
+ * BindingTarget类型
+ * 
+ * let语句和函数参数中绑定变量的目标：标识符，或者用于解构的数组模式、哈希表模式
+ * 值的结构与模式不符时求值会报错
+ */
+export type BindingTarget = Identifier | ArrayPattern | HashPattern;
+
+/**
+ * MatchArm类
+ * 
+ * 表示match表达式的一个分支
+ * 格式：<pattern> [if <guard>] => <body>
+ * 例如：[x, y] if x > y => x
+ */
+export class MatchArm implements Node {
+  readonly kind = "MatchArm";
+  token: token.Token;      // 模式的第一个token
+  span?: token.Span;       // 源代码位置范围
+  pattern: Pattern;        // 模式
+  guard?: Expression;      // 可选的守卫条件
+  body: Expression;        // 匹配成功时求值的表达式
+
+  constructor(
+    token: token.Token,
+    pattern: Pattern,
+    body: Expression,
+    guard?: Expression
+  ) {
+    this.token = token;
+    this.pattern = pattern;
+    this.body = body;
+    this.guard = guard;
+  }
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    let out = this.pattern.toString();
+    if (this.guard) {
+      out += " if " + this.guard.toString();
+    }
+    out += " => " + this.body.toString();
+    return out;
+  }
+}
+
+/**
+ * MatchExpression类
+ * 
+ * 表示模式匹配表达式，按顺序尝试每个分支，求值第一个匹配的分支
+ * 例如：match (shape) { {"type": "circle", "r": r} => 3 * r * r, _ => 0 }
+ */
+export class MatchExpression implements Expression {
+  readonly kind = "MatchExpression";
+  token: token.Token;        // MATCH token
+  span?: token.Span;         // 源代码位置范围
+  subject: Expression;       // 被匹配的表达式
+  arms: MatchArm[] = [];     // 分支列表
+
+  constructor(token: token.Token, subject: Expression) {
+    this.token = token;
+    this.subject = subject;
+  }
+
+  expressionNode(): void {}
+
+  tokenLiteral(): string {
+    return this.token.Literal;
+  }
+
+  toString(): string {
+    const arms = this.arms.map((arm) => arm.toString());
+    return (
+      "match (" + this.subject.toString() + ") { " + arms.join(", ") + " }"
+    );
+  }
+}
+
+/**
+ * AnyNode类型
+ *
+ * 所有内置AST节点类的联合类型，kind是区分它们的标签
+ * 新增节点类时也要加入这里
+ *
+ * @example
+ * ```typescript
+ * const node = n as AnyNode;
+ * switch (node.kind) {
+ *   case "Identifier":
+ *     return node.value;   // node的类型已经收窄为Identifier
+ *   // ...
+ * }
+ * ```
+ */
+export type AnyNode =
+  | Program
+  | LetStatement
+  | ReturnStatement
+  | ExpressionStatement
+  | BlockStatement
+  | WhileStatement
+  | ForInStatement
+  | BreakStatement
+  | ContinueStatement
+  | ErrorStatement
+  | ErrorExpression
+  | Identifier
+  | IntegerLiteral
+  | FloatLiteral
+  | StringLiteral
+  | InterpolatedString
+  | BooleanLiteral
+  | ArrayLiteral
+  | HashLiteral
+  | PrefixExpression
+  | InfixExpression
+  | AssignExpression
+  | IfExpression
+  | FunctionLiteral
+  | MacroLiteral
+  | CallExpression
+  | IndexExpression
+  | WildcardPattern
+  | IdentifierPattern
+  | LiteralPattern
+  | ArrayPattern
+  | HashPattern
+  | MatchArm
+  | MatchExpression;
+
+/**
+ * 内置节点的种类，例如 "LetStatement"
+ */
+export type NodeKind = AnyNode["kind"];
+
+// ==================== 辅助函数 ====================
+
+/**
+ * 将字符串值转换为Monkey字符串字面量的源代码形式
+ * 
+ * 加上双引号，并把反斜杠、双引号和控制字符转义
+ * 
+ * 例如：字符串值 say "hi" 加一个换行符，会被转换为 "say \"hi\"\n"
+ */
+function quoteString(value: string): string {
+  return '"' + escapeString(value) + '"';
+}
+
+/**
+ * 转义字符串值，得到可以放在双引号之间的源代码（不含引号）
+ * 
+ * 除了反斜杠、双引号和控制字符，${ 也要转义为 \${，否则会被当作插值
+ */
+export function escapeString(value: string): string {
+  const chars = Array.from(value);
+  let out = "";
+  chars.forEach((ch, i) => {
+    switch (ch) {
+      case "\\":
+        out += "\\\\";
+        break;
+      case '"':
+        out += '\\"';
+        break;
+      case "\n":
+        out += "\\n";
+        break;
+      case "\t":
+        out += "\\t";
+        break;
+      case "\r":
+        out += "\\r";
+        break;
+      case "$":
+        out += chars[i + 1] === "{" ? "\\$" : "$";
+        break;
+      default: {
+        // 其余控制字符使用 \u{...} 形式
+        const code = ch.codePointAt(0)!;
+        if (code < 0x20 || code === 0x7f) {
+          out += `\\u{${code.toString(16)}}`;
+        } else {
+          out += ch;
+        }
+      }
+    }
+  });
+  return out;
+}
@@ -0,0 +1,254 @@
+/**
+ * AST JSON模块的单元测试
+ *
+ * 测试AST和JSON之间的相互转换，以及从JSON重建的AST能否正常求值
+ */
+
+import { describe, it, expect } from "vitest";
+import * as ast from "./ast";
+import { toJSON, fromJSON } from "./json";
+import type { NodeJSON, ProgramJSON } from "./json";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+import { evalNode } from "../evaluator/evaluator";
+import { Environment } from "../object/environment";
+
+/**
+ * 辅助函数：解析输入，并经过JSON字符串往返转换
+ */
+function roundTrip(input: string): { program: ast.Program; restored: ast.Program } {
+  const program = new Parser(new Lexer(input)).parseProgram();
+  const json = JSON.parse(JSON.stringify(toJSON(program))) as ProgramJSON;
+  return { program, restored: fromJSON(json) };
+}
+
+describe("AST JSON", () => {
+  it("往返转换应该得到相同的AST", () => {
+    const input = [
+      "let add = fn(a, b) { return a + b; };",
+      "let [head, ...tail] = [1, 2.5, 1_000, 1e3];",
+      'let {"name": name} = {"name": "monkey", true: !false};',
+      'let s = "x = ${x + 1}, y = ${-y}";',
+      "if (x > 1) { x } else if (x < 0) { 0 } else { -x };",
+      "while (i < 10) { i += 1; if (i == 5) { break; } continue; };",
+      "for (v in arr) { puts(arr[0], v) };",
+      "let m = macro(a, b) { quote(unquote(a) * 2) };",
+      "match (v) { 0 => \"zero\", [a, ...rest] if a > 0 => a, {\"k\": _} => 1, n => n };",
+      "fn([a, b], {\"c\": c}) { a ** b % c };",
+    ].join("\n");
+
+    const { program, restored } = roundTrip(input);
+
+    expect(restored).toBeInstanceOf(ast.Program);
+    expect(restored.toString()).toBe(program.toString());
+    expect(toJSON(restored)).toEqual(toJSON(program));
+  });
+
+  it("应该生成带有kind和span的JSON", () => {
+    const program = new Parser(new Lexer("let x = 1 + 2;")).parseProgram();
+
+    expect(toJSON(program.statements[0])).toEqual({
+      kind: "LetStatement",
+      span: { start: { line: 1, column: 1, offset: 0 }, end: { line: 1, column: 15, offset: 14 } },
+      name: {
+        kind: "Identifier",
+        span: { start: { line: 1, column: 5, offset: 4 }, end: { line: 1, column: 6, offset: 5 } },
+        value: "x",
+      },
+      value: {
+        kind: "InfixExpression",
+        span: { start: { line: 1, column: 9, offset: 8 }, end: { line: 1, column: 14, offset: 13 } },
+        operator: "+",
+        left: {
+          kind: "IntegerLiteral",
+          span: { start: { line: 1, column: 9, offset: 8 }, end: { line: 1, column: 10, offset: 9 } },
+          value: 1,
+          raw: "1",
+        },
+        right: {
+          kind: "IntegerLiteral",
+          span: { start: { line: 1, column: 13, offset: 12 }, end: { line: 1, column: 14, offset: 13 } },
+          value: 2,
+          raw: "2",
+        },
+      },
+    });
+  });
+
+  it("从JSON重建的AST应该可以求值", () => {
+    const { restored } = roundTrip(`
+      let fib = fn(n) { if (n < 2) { n } else { fib(n - 1) + fib(n - 2) } };
+      let [a, b] = [fib(10), "\${fib(5)}"];
+      match (a) { 55 => b, _ => "wrong" }
+    `);
+
+    expect(evalNode(restored, new Environment())?.inspect()).toBe("5");
+  });
+
+  it("应该接受外部工具生成的不带span的JSON", () => {
+    const json: NodeJSON = {
+      kind: "Program",
+      statements: [
+        {
+          kind: "ExpressionStatement",
+          expression: {
+            kind: "InfixExpression",
+            operator: "*",
+            left: { kind: "FloatLiteral", value: 2 },
+            right: {
+              kind: "CallExpression",
+              func: { kind: "Identifier", value: "len" },
+              args: [{ kind: "StringLiteral", value: "abc" }],
+            },
+          },
+        },
+      ],
+    };
+
+    const program = fromJSON(json);
+
+    expect(program.toString()).toBe("(2.0 * len(\"abc\"))");
+    expect(evalNode(program, new Environment())?.inspect()).toBe("6.0");
+  });
+
+  it("JSON结构不正确时应该抛出带有路径的错误", () => {
+    const tests: { json: unknown; error: string }[] = [
+      { json: { kind: "Unknown" }, error: 'invalid AST JSON at $: unknown node kind "Unknown"' },
+      {
+        json: { kind: "Program", statements: [{ kind: "Identifier", value: "x" }] },
+        error: "invalid AST JSON at $.statements[0]: expected statement, got Identifier",
+      },
+      {
+        json: { kind: "ReturnStatement", returnValue: { kind: "BreakStatement" } },
+        error: "invalid AST JSON at $.returnValue: expected expression, got BreakStatement",
+      },
+      {
+        json: { kind: "Identifier", value: 1 },
+        error: "invalid AST JSON at $.value: expected string, got 1",
+      },
+      {
+        json: { kind: "ArrayLiteral", elements: null },
+        error: "invalid AST JSON at $.elements: expected array, got null",
+      },
+    ];
+
+    for (const test of tests) {
+      expect(() => fromJSON(test.json as NodeJSON)).toThrow(test.error);
+    }
+  });
+
+  it("应该拒绝解析器不会生成的AST", () => {
+    const one = { kind: "IntegerLiteral", value: 1 };
+    const x = { kind: "Identifier", value: "x" };
+    const tests: { json: unknown; error: string }[] = [
+      {
+        json: { kind: "AssignExpression", operator: "=", target: one, value: one },
+        error: "at $.target: expected Identifier or IndexExpression, got IntegerLiteral",
+      },
+      {
+        json: { kind: "AssignExpression", operator: "%%", target: x, value: one },
+        error: 'at $.operator: unknown operator "%%"',
+      },
+      {
+        json: { kind: "InfixExpression", operator: "<>", left: x, right: one },
+        error: 'at $.operator: unknown operator "<>"',
+      },
+      {
+        json: { kind: "PrefixExpression", operator: "+", right: one },
+        error: 'at $.operator: unknown operator "+"',
+      },
+      {
+        json: { kind: "IntegerLiteral", value: 1.5 },
+        error: "at $.value: expected non-negative integer, got 1.5",
+      },
+      {
+        json: { kind: "IntegerLiteral", value: 5, raw: 7 },
+        error: "at $.raw: expected string, got 7",
+      },
+      {
+        json: { kind: "IntegerLiteral", value: 5, raw: "7" },
+        error: 'at $.raw: expected INT literal for 5, got "7"',
+      },
+      {
+        json: { kind: "FloatLiteral", value: 1, raw: "abc" },
+        error: 'at $.raw: expected FLOAT literal for 1, got "abc"',
+      },
+      {
+        json: { kind: "FloatLiteral", value: 1, raw: "1" },
+        error: 'at $.raw: expected FLOAT literal for 1, got "1"',
+      },
+      {
+        json: { kind: "LiteralPattern", value: x },
+        error: "at $.value: expected pattern literal, got Identifier",
+      },
+      {
+        json: { kind: "LiteralPattern", value: { kind: "PrefixExpression", operator: "!", right: one } },
+        error: 'at $.value.operator: expected "-", got "!"',
+      },
+      {
+        json: { kind: "LiteralPattern", value: { kind: "PrefixExpression", operator: "-", right: x } },
+        error: "at $.value.right: expected IntegerLiteral or FloatLiteral, got Identifier",
+      },
+      {
+        json: { kind: "HashPattern", pairs: [{ key: x, value: { kind: "WildcardPattern" } }] },
+        error: "at $.pairs[0].key: expected pattern literal, got Identifier",
+      },
+      {
+        json: { kind: "Identifier", value: "1 + 2" },
+        error: 'at $.value: expected identifier name, got "1 + 2"',
+      },
+      {
+        json: { kind: "Identifier", value: "let" },
+        error: 'at $.value: expected identifier name, got "let"',
+      },
+      {
+        json: { kind: "IdentifierPattern", name: { kind: "Identifier", value: "_" } },
+        error: 'at $.name: use WildcardPattern instead of "_"',
+      },
+      {
+        json: { kind: "Identifier", value: "x", span: "zz" },
+        error: 'at $.span: expected span, got "zz"',
+      },
+      {
+        json: { kind: "Identifier", value: "x", span: { start: { line: 1, column: 1, offset: 0 }, end: { line: 1 } } },
+        error: "at $.span.end.column: expected number, got undefined",
+      },
+      {
+        json: { kind: "HashLiteral", pairs: [null] },
+        error: "at $.pairs[0]: expected key-value pair, got null",
+      },
+      {
+        json: { kind: "HashPattern", pairs: [{ key: one, value: { kind: "WildcardPattern" } }, 1] },
+        error: "at $.pairs[1]: expected key-value pair, got 1",
+      },
+      {
+        json: { kind: "Program", statements: [{ kind: "BreakStatement" }] },
+        error: "at $.statements[0]: BreakStatement outside of a loop",
+      },
+      {
+        json: {
+          kind: "WhileStatement",
+          condition: { kind: "BooleanLiteral", value: true },
+          body: {
+            kind: "BlockStatement",
+            statements: [
+              {
+                kind: "ExpressionStatement",
+                expression: {
+                  kind: "FunctionLiteral",
+                  parameters: [],
+                  body: { kind: "BlockStatement", statements: [{ kind: "ContinueStatement" }] },
+                },
+              },
+            ],
+          },
+        },
+        error: "at $.body.statements[0].expression.body.statements[0]: ContinueStatement outside of a loop",
+      },
+    ];
+
+    for (const test of tests) {
+      expect(() => fromJSON(test.json as NodeJSON)).toThrow(test.error);
+    }
+  });
+});
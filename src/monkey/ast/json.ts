@@ -0,0 +1,1258 @@
+/**
+ * AST的JSON表示
+ *
+ * 把AST转换为只包含普通对象、数组、字符串和数字的JSON，以及从JSON重建AST
+ * 可以用于缓存AST、发送给Web Worker、在测试中比较AST，或者让外部工具生成AST交给evalNode求值
+ *
+ * JSON格式：
+ * - 每个节点都有kind字段，值为节点的类名，例如 "LetStatement"、"InfixExpression"
+ * - 有位置信息的节点带有span字段，格式与token.Span相同
+ * - 子节点按字段名保存，例如LetStatement的 { name, value }
+ * - 哈希表字面量和哈希表模式的键值对保存为 [{ key, value }, ...] 数组，保持原来的顺序
+ *
+ * Token不会保存，fromJSON会根据节点的内容重新构造
+ *
+ * @example
+ * ```typescript
+ * const json = JSON.stringify(toJSON(program));
+ * const restored = fromJSON(JSON.parse(json));
+ * evalNode(restored, new Environment());
+ * ```
+ */
+
+import * as ast from "./ast";
+import * as token from "../token/token";
+import { tokenize } from "../lexer/lexer";
+
+// ==================== JSON格式 ====================
+
+/**
+ * 所有节点JSON共有的字段
+ */
+interface BaseJSON {
+  span?: token.Span;   // 源代码位置范围
+}
+
+export interface ProgramJSON extends BaseJSON {
+  kind: "Program";
+  statements: StatementJSON[];
+}
+
+export interface LetStatementJSON extends BaseJSON {
+  kind: "LetStatement";
+  name: BindingTargetJSON;
+  value: ExpressionJSON;
+}
+
+export interface ReturnStatementJSON extends BaseJSON {
+  kind: "ReturnStatement";
+  returnValue: ExpressionJSON;
+}
+
+export interface ExpressionStatementJSON extends BaseJSON {
+  kind: "ExpressionStatement";
+  expression: ExpressionJSON;
+}
+
+export interface BlockStatementJSON extends BaseJSON {
+  kind: "BlockStatement";
+  statements: StatementJSON[];
+}
+
+export interface WhileStatementJSON extends BaseJSON {
+  kind: "WhileStatement";
+  condition: ExpressionJSON;
+  body: BlockStatementJSON;
+}
+
+export interface ForInStatementJSON extends BaseJSON {
+  kind: "ForInStatement";
+  variable: IdentifierJSON;
+  iterable: ExpressionJSON;
+  body: BlockStatementJSON;
+}
+
+export interface BreakStatementJSON extends BaseJSON {
+  kind: "BreakStatement";
+}
+
+export interface ContinueStatementJSON extends BaseJSON {
+  kind: "ContinueStatement";
+}
+
+export interface ErrorStatementJSON extends BaseJSON {
+  kind: "ErrorStatement";
+}
+
+export interface ErrorExpressionJSON extends BaseJSON {
+  kind: "ErrorExpression";
+}
+
+export interface IdentifierJSON extends BaseJSON {
+  kind: "Identifier";
+  value: string;
+}
+
+/**
+ * raw是源代码中的写法（如 1_000、1e3），省略时由value生成
+ * 提供raw时它必须是一个表示同一个数值的字面量
+ */
+export interface IntegerLiteralJSON extends BaseJSON {
+  kind: "IntegerLiteral";
+  value: number;
+  raw?: string;
+}
+
+export interface FloatLiteralJSON extends BaseJSON {
+  kind: "FloatLiteral";
+  value: number;
+  raw?: string;
+}
+
+export interface StringLiteralJSON extends BaseJSON {
+  kind: "StringLiteral";
+  value: string;
+}
+
+export interface InterpolatedStringJSON extends BaseJSON {
+  kind: "InterpolatedString";
+  strings: string[];
+  expressions: ExpressionJSON[];
+}
+
+export interface BooleanLiteralJSON extends BaseJSON {
+  kind: "BooleanLiteral";
+  value: boolean;
+}
+
+export interface ArrayLiteralJSON extends BaseJSON {
+  kind: "ArrayLiteral";
+  elements: ExpressionJSON[];
+}
+
+export interface HashLiteralJSON extends BaseJSON {
+  kind: "HashLiteral";
+  pairs: { key: ExpressionJSON; value: ExpressionJSON }[];
+}
+
+export interface PrefixExpressionJSON extends BaseJSON {
+  kind: "PrefixExpression";
+  operator: string;
+  right: ExpressionJSON;
+}
+
+export interface InfixExpressionJSON extends BaseJSON {
+  kind: "InfixExpression";
+  operator: string;
+  left: ExpressionJSON;
+  right: ExpressionJSON;
+}
+
+export interface AssignExpressionJSON extends BaseJSON {
+  kind: "AssignExpression";
+  operator: string;
+  target: ExpressionJSON;
+  value: ExpressionJSON;
+}
+
+export interface IfExpressionJSON extends BaseJSON {
+  kind: "IfExpression";
+  condition: ExpressionJSON;
+  consequence: BlockStatementJSON;
+  alternative?: BlockStatementJSON | IfExpressionJSON;
+}
+
+export interface FunctionLiteralJSON extends BaseJSON {
+  kind: "FunctionLiteral";
+  parameters: BindingTargetJSON[];
+  body: BlockStatementJSON;
+}
+
+export interface MacroLiteralJSON extends BaseJSON {
+  kind: "MacroLiteral";
+  parameters: IdentifierJSON[];
+  body: BlockStatementJSON;
+}
+
+export interface CallExpressionJSON extends BaseJSON {
+  kind: "CallExpression";
+  func: ExpressionJSON;
+  args: ExpressionJSON[];
+}
+
+export interface IndexExpressionJSON extends BaseJSON {
+  kind: "IndexExpression";
+  left: ExpressionJSON;
+  index: ExpressionJSON;
+}
+
+export interface MatchExpressionJSON extends BaseJSON {
+  kind: "MatchExpression";
+  subject: ExpressionJSON;
+  arms: MatchArmJSON[];
+}
+
+export interface MatchArmJSON extends BaseJSON {
+  kind: "MatchArm";
+  pattern: PatternJSON;
+  guard?: ExpressionJSON;
+  body: ExpressionJSON;
+}
+
+export interface WildcardPatternJSON extends BaseJSON {
+  kind: "WildcardPattern";
+}
+
+export interface IdentifierPatternJSON extends BaseJSON {
+  kind: "IdentifierPattern";
+  name: IdentifierJSON;
+}
+
+export interface LiteralPatternJSON extends BaseJSON {
+  kind: "LiteralPattern";
+  value: ExpressionJSON;
+}
+
+export interface ArrayPatternJSON extends BaseJSON {
+  kind: "ArrayPattern";
+  elements: PatternJSON[];
+  rest?: IdentifierJSON;
+}
+
+export interface HashPatternJSON extends BaseJSON {
+  kind: "HashPattern";
+  pairs: { key: ExpressionJSON; value: PatternJSON }[];
+}
+
+export type StatementJSON =
+  | LetStatementJSON
+  | ReturnStatementJSON
+  | ExpressionStatementJSON
+  | BlockStatementJSON
+  | WhileStatementJSON
+  | ForInStatementJSON
+  | BreakStatementJSON
+  | ContinueStatementJSON
+  | ErrorStatementJSON;
+
+export type ExpressionJSON =
+  | ErrorExpressionJSON
+  | IdentifierJSON
+  | IntegerLiteralJSON
+  | FloatLiteralJSON
+  | StringLiteralJSON
+  | InterpolatedStringJSON
+  | BooleanLiteralJSON
+  | ArrayLiteralJSON
+  | HashLiteralJSON
+  | PrefixExpressionJSON
+  | InfixExpressionJSON
+  | AssignExpressionJSON
+  | IfExpressionJSON
+  | FunctionLiteralJSON
+  | MacroLiteralJSON
+  | CallExpressionJSON
+  | IndexExpressionJSON
+  | MatchExpressionJSON;
+
+export type PatternJSON =
+  | WildcardPatternJSON
+  | IdentifierPatternJSON
+  | LiteralPatternJSON
+  | ArrayPatternJSON
+  | HashPatternJSON;
+
+export type BindingTargetJSON =
+  | IdentifierJSON
+  | ArrayPatternJSON
+  | HashPatternJSON;
+
+/**
+ * 任意AST节点的JSON
+ */
+export type NodeJSON =
+  | ProgramJSON
+  | StatementJSON
+  | ExpressionJSON
+  | PatternJSON
+  | MatchArmJSON;
+
+// ==================== AST -> JSON ====================
+
+/**
+ * 把AST节点转换为JSON
+ *
+ * 返回的对象可以直接交给JSON.stringify，不包含Token和类实例
+ * 不认识的节点（例如Parser扩展定义的节点）会抛出错误
+ */
+export function toJSON(node: ast.Program): ProgramJSON;
+export function toJSON(node: ast.Node): NodeJSON;
+export function toJSON(node: ast.Node): NodeJSON {
+  const json = nodeToJSON(node);
+  if (node.span) {
+    json.span = node.span;
+  }
+  return json;
+}
+
+/**
+ * 转换节点本身的字段，span由toJSON统一添加
+ */
+function nodeToJSON(node: ast.Node): NodeJSON {
+  // BlockStatement的结构和Program相同，先转为ast.Node以免匹配到Program的重载
+  const child = (n: ast.Node): NodeJSON => toJSON(n);
+  const expr = (n: ast.Expression) => child(n) as ExpressionJSON;
+  const stmt = (n: ast.Statement) => child(n) as StatementJSON;
+  const block = (n: ast.BlockStatement) => child(n) as BlockStatementJSON;
+  const ident = (n: ast.Identifier) => child(n) as IdentifierJSON;
+  const pattern = (n: ast.Pattern) => child(n) as PatternJSON;
+  const target = (n: ast.BindingTarget) => child(n) as BindingTargetJSON;
+
+  if (node instanceof ast.Program) {
+    return { kind: "Program", statements: node.statements.map(stmt) };
+  }
+  if (node instanceof ast.LetStatement) {
+    return {
+      kind: "LetStatement",
+      name: target(node.name),
+      value: expr(node.value),
+    };
+  }
+  if (node instanceof ast.ReturnStatement) {
+    return { kind: "ReturnStatement", returnValue: expr(node.returnValue) };
+  }
+  if (node instanceof ast.ExpressionStatement) {
+    return { kind: "ExpressionStatement", expression: expr(node.expression) };
+  }
+  if (node instanceof ast.BlockStatement) {
+    return { kind: "BlockStatement", statements: node.statements.map(stmt) };
+  }
+  if (node instanceof ast.WhileStatement) {
+    return {
+      kind: "WhileStatement",
+      condition: expr(node.condition),
+      body: block(node.body),
+    };
+  }
+  if (node instanceof ast.ForInStatement) {
+    return {
+      kind: "ForInStatement",
+      variable: ident(node.variable),
+      iterable: expr(node.iterable),
+      body: block(node.body),
+    };
+  }
+  if (node instanceof ast.BreakStatement) {
+    return { kind: "BreakStatement" };
+  }
+  if (node instanceof ast.ContinueStatement) {
+    return { kind: "ContinueStatement" };
+  }
+  if (node instanceof ast.ErrorStatement) {
+    return { kind: "ErrorStatement" };
+  }
+  if (node instanceof ast.ErrorExpression) {
+    return { kind: "ErrorExpression" };
+  }
+  if (node instanceof ast.Identifier) {
+    return { kind: "Identifier", value: node.value };
+  }
+  if (node instanceof ast.IntegerLiteral) {
+    return { kind: "IntegerLiteral", value: node.value, raw: node.token.Literal };
+  }
+  if (node instanceof ast.FloatLiteral) {
+    return { kind: "FloatLiteral", value: node.value, raw: node.token.Literal };
+  }
+  if (node instanceof ast.StringLiteral) {
+    return { kind: "StringLiteral", value: node.value };
+  }
+  if (node instanceof ast.InterpolatedString) {
+    return {
+      kind: "InterpolatedString",
+      strings: [...node.strings],
+      expressions: node.expressions.map(expr),
+    };
+  }
+  if (node instanceof ast.BooleanLiteral) {
+    return { kind: "BooleanLiteral", value: node.value };
+  }
+  if (node instanceof ast.ArrayLiteral) {
+    return { kind: "ArrayLiteral", elements: node.elements.map(expr) };
+  }
+  if (node instanceof ast.HashLiteral) {
+    return {
+      kind: "HashLiteral",
+      pairs: Array.from(node.pairs, ([key, value]) => ({
+        key: expr(key),
+        value: expr(value),
+      })),
+    };
+  }
+  if (node instanceof ast.PrefixExpression) {
+    return {
+      kind: "PrefixExpression",
+      operator: node.operator,
+      right: expr(node.right),
+    };
+  }
+  if (node instanceof ast.InfixExpression) {
+    return {
+      kind: "InfixExpression",
+      operator: node.operator,
+      left: expr(node.left),
+      right: expr(node.right),
+    };
+  }
+  if (node instanceof ast.AssignExpression) {
+    return {
+      kind: "AssignExpression",
+      operator: node.operator,
+      target: expr(node.target),
+      value: expr(node.value),
+    };
+  }
+  if (node instanceof ast.IfExpression) {
+    const json: IfExpressionJSON = {
+      kind: "IfExpression",
+      condition: expr(node.condition),
+      consequence: block(node.consequence),
+    };
+    if (node.alternative) {
+      json.alternative = child(node.alternative) as
+        | BlockStatementJSON
+        | IfExpressionJSON;
+    }
+    return json;
+  }
+  if (node instanceof ast.FunctionLiteral) {
+    return {
+      kind: "FunctionLiteral",
+      parameters: node.parameters.map(target),
+      body: block(node.body),
+    };
+  }
+  if (node instanceof ast.MacroLiteral) {
+    return {
+      kind: "MacroLiteral",
+      parameters: node.parameters.map(ident),
+      body: block(node.body),
+    };
+  }
+  if (node instanceof ast.CallExpression) {
+    return {
+      kind: "CallExpression",
+      func: expr(node.func),
+      args: node.args.map(expr),
+    };
+  }
+  if (node instanceof ast.IndexExpression) {
+    return {
+      kind: "IndexExpression",
+      left: expr(node.left),
+      index: expr(node.index),
+    };
+  }
+  if (node instanceof ast.MatchExpression) {
+    return {
+      kind: "MatchExpression",
+      subject: expr(node.subject),
+      arms: node.arms.map((arm) => child(arm) as MatchArmJSON),
+    };
+  }
+  if (node instanceof ast.MatchArm) {
+    const json: MatchArmJSON = {
+      kind: "MatchArm",
+      pattern: pattern(node.pattern),
+      body: expr(node.body),
+    };
+    if (node.guard) {
+      json.guard = expr(node.guard);
+    }
+    return json;
+  }
+  if (node instanceof ast.WildcardPattern) {
+    return { kind: "WildcardPattern" };
+  }
+  if (node instanceof ast.IdentifierPattern) {
+    return { kind: "IdentifierPattern", name: ident(node.name) };
+  }
+  if (node instanceof ast.LiteralPattern) {
+    return { kind: "LiteralPattern", value: expr(node.value) };
+  }
+  if (node instanceof ast.ArrayPattern) {
+    const json: ArrayPatternJSON = {
+      kind: "ArrayPattern",
+      elements: node.elements.map(pattern),
+    };
+    if (node.rest) {
+      json.rest = ident(node.rest);
+    }
+    return json;
+  }
+  if (node instanceof ast.HashPattern) {
+    return {
+      kind: "HashPattern",
+      pairs: Array.from(node.pairs, ([key, value]) => ({
+        key: expr(key),
+        value: pattern(value),
+      })),
+    };
+  }
+
+  throw new Error(`cannot convert ${node.constructor.name} to JSON`);
+}
+
+// ==================== JSON -> AST ====================
+
+/**
+ * 从JSON重建AST
+ *
+ * 返回真正的AST类实例，可以直接交给evalNode求值或者再次格式化
+ * JSON的结构不正确时（未知的kind、缺少字段、子节点的种类不对）抛出错误，
+ * 解析器保证的约束也会检查，例如运算符必须是已知的运算符、break只能出现在循环体中，
+ * 错误信息中带有出错节点在JSON中的路径，例如 "invalid AST JSON at statements[0].value: ..."
+ */
+export function fromJSON(json: ProgramJSON): ast.Program;
+export function fromJSON(json: NodeJSON): ast.Node;
+export function fromJSON(json: NodeJSON): ast.Node {
+  return new Decoder().node(json, "$");
+}
+
+/**
+ * 语句节点的kind
+ */
+const statementKinds = new Set([
+  "LetStatement",
+  "ReturnStatement",
+  "ExpressionStatement",
+  "BlockStatement",
+  "WhileStatement",
+  "ForInStatement",
+  "BreakStatement",
+  "ContinueStatement",
+  "ErrorStatement",
+]);
+
+/**
+ * 模式节点的kind
+ */
+const patternKinds = new Set([
+  "WildcardPattern",
+  "IdentifierPattern",
+  "LiteralPattern",
+  "ArrayPattern",
+  "HashPattern",
+]);
+
+/**
+ * 模式中可以出现的字面量的kind，PrefixExpression只能是负数
+ */
+const patternLiteralKinds = new Set([
+  "IntegerLiteral",
+  "FloatLiteral",
+  "StringLiteral",
+  "BooleanLiteral",
+  "PrefixExpression",
+]);
+
+/**
+ * 内置的前缀运算符
+ */
+const prefixOperators = new Set([token.BANG, token.MINUS, token.TILDE]);
+
+/**
+ * 内置的中缀运算符
+ */
+const infixOperators = new Set([
+  token.PLUS,
+  token.MINUS,
+  token.ASTERISK,
+  token.SLASH,
+  token.PERCENT,
+  token.POWER,
+  token.BIT_AND,
+  token.BIT_OR,
+  token.BIT_XOR,
+  token.SHL,
+  token.SHR,
+  token.EQ,
+  token.NOT_EQ,
+  token.LT,
+  token.GT,
+  token.LT_EQ,
+  token.GT_EQ,
+  token.AND,
+  token.OR,
+]);
+
+/**
+ * 赋值运算符
+ */
+const assignOperators = new Set([
+  token.ASSIGN,
+  token.PLUS_ASSIGN,
+  token.MINUS_ASSIGN,
+  token.ASTERISK_ASSIGN,
+  token.SLASH_ASSIGN,
+]);
+
+/**
+ * Decoder类
+ *
+ * 递归地把JSON转换为AST节点，path记录当前节点在JSON中的路径，用于错误信息
+ */
+class Decoder {
+  /**
+   * 当前所在循环体的嵌套层数，进入函数或宏时重新计数，与Parser相同
+   */
+  private loopDepth = 0;
+
+  /**
+   * 转换任意节点
+   */
+  public node(json: NodeJSON, path: string): ast.Node {
+    if (typeof json !== "object" || json === null) {
+      this.fail(path, `expected AST node, got ${JSON.stringify(json)}`);
+    }
+
+    const node = this.decode(json, path);
+    if (json.span !== undefined) {
+      node.span = this.span(json.span, `${path}.span`);
+    }
+    return node;
+  }
+
+  /**
+   * 转换语句节点
+   */
+  private statement(json: StatementJSON, path: string): ast.Statement {
+    this.expectKind(json, path, "statement", (kind) => statementKinds.has(kind));
+    return this.node(json, path) as ast.Statement;
+  }
+
+  /**
+   * 转换表达式节点
+   */
+  private expression(json: ExpressionJSON, path: string): ast.Expression {
+    this.expectKind(
+      json,
+      path,
+      "expression",
+      (kind) =>
+        kind !== "Program" &&
+        kind !== "MatchArm" &&
+        !statementKinds.has(kind) &&
+        !patternKinds.has(kind)
+    );
+    return this.node(json, path) as ast.Expression;
+  }
+
+  /**
+   * 转换模式节点
+   */
+  private pattern(json: PatternJSON, path: string): ast.Pattern {
+    this.expectKind(json, path, "pattern", (kind) => patternKinds.has(kind));
+    return this.node(json, path) as ast.Pattern;
+  }
+
+  /**
+   * 转换模式中的字面量（字面量模式的值或哈希表模式的键）
+   * 与Parser一样只接受整数、浮点数、字符串和布尔值字面量，以及带负号的数字
+   */
+  private patternLiteral(json: ExpressionJSON, path: string): ast.Expression {
+    this.expectKind(json, path, "pattern literal", (kind) =>
+      patternLiteralKinds.has(kind)
+    );
+    if (json.kind === "PrefixExpression") {
+      if (json.operator !== token.MINUS) {
+        this.fail(
+          `${path}.operator`,
+          `expected "-", got ${JSON.stringify(json.operator)}`
+        );
+      }
+      this.expectKind(
+        json.right,
+        `${path}.right`,
+        "IntegerLiteral or FloatLiteral",
+        (kind) => kind === "IntegerLiteral" || kind === "FloatLiteral"
+      );
+    }
+    return this.node(json, path) as ast.Expression;
+  }
+
+  /**
+   * 转换代码块
+   */
+  private block(json: BlockStatementJSON, path: string): ast.BlockStatement {
+    this.expectKind(
+      json,
+      path,
+      "BlockStatement",
+      (kind) => kind === "BlockStatement"
+    );
+    return this.node(json, path) as ast.BlockStatement;
+  }
+
+  /**
+   * 转换标识符
+   */
+  private identifier(json: IdentifierJSON, path: string): ast.Identifier {
+    this.expectKind(json, path, "Identifier", (kind) => kind === "Identifier");
+    return this.node(json, path) as ast.Identifier;
+  }
+
+  /**
+   * 转换let语句或函数参数中的绑定目标
+   */
+  private bindingTarget(json: BindingTargetJSON, path: string): ast.BindingTarget {
+    this.expectKind(
+      json,
+      path,
+      "Identifier, ArrayPattern or HashPattern",
+      (kind) =>
+        kind === "Identifier" || kind === "ArrayPattern" || kind === "HashPattern"
+    );
+    return this.node(json, path) as ast.BindingTarget;
+  }
+
+  /**
+   * 转换循环体
+   */
+  private loopBody(json: BlockStatementJSON, path: string): ast.BlockStatement {
+    this.loopDepth++;
+    try {
+      return this.block(json, path);
+    } finally {
+      this.loopDepth--;
+    }
+  }
+
+  /**
+   * 转换函数体或宏体，其中不能使用外层循环的break和continue
+   */
+  private functionBody(
+    json: BlockStatementJSON,
+    path: string
+  ): ast.BlockStatement {
+    const outerLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    try {
+      return this.block(json, path);
+    } finally {
+      this.loopDepth = outerLoopDepth;
+    }
+  }
+
+  /**
+   * 检查位置范围的结构
+   */
+  private span(json: token.Span, path: string): token.Span {
+    this.expectObject(json, "span", path);
+    for (const end of ["start", "end"] as const) {
+      const position = json[end];
+      this.expectObject(position, "position", `${path}.${end}`);
+      for (const field of ["line", "column", "offset"] as const) {
+        this.expectType(position[field], "number", `${path}.${end}.${field}`);
+      }
+    }
+    return json;
+  }
+
+  /**
+   * 检查数字字面量的raw
+   *
+   * raw必须恰好是一个type类型的Token，并且与Parser一样去掉下划线之后得到的数值等于value，
+   * 否则重建的AST打印出来的值和求值的结果会不一致
+   */
+  private raw(
+    raw: string | undefined,
+    value: number,
+    type: token.TokenType,
+    path: string
+  ): string | undefined {
+    if (raw === undefined) {
+      return undefined;
+    }
+    this.expectType(raw, "string", path);
+
+    const { tokens, diagnostics } = tokenize(raw);
+    const literal = tokens[0];
+    if (
+      diagnostics.length > 0 ||
+      tokens.length !== 2 ||
+      literal.Type !== type ||
+      literal.Literal !== raw ||
+      Number(raw.replace(/_/g, "")) !== value
+    ) {
+      this.fail(
+        path,
+        `expected ${type} literal for ${value}, got ${JSON.stringify(raw)}`
+      );
+    }
+    return raw;
+  }
+
+  /**
+   * 检查运算符是否在已知的运算符中
+   * 通过registerOperator注册的运算符也可以作为前缀和中缀运算符
+   */
+  private operator(
+    value: string,
+    path: string,
+    known: Set<string>,
+    allowCustom: boolean
+  ): string {
+    this.expectType(value, "string", path);
+    const custom =
+      allowCustom && token.lookupOperator(value, 0)?.literal === value;
+    if (!known.has(value) && !custom) {
+      this.fail(path, `unknown operator ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  /**
+   * 转换节点列表
+   */
+  private list<J, T>(
+    items: J[],
+    path: string,
+    convert: (item: J, path: string) => T
+  ): T[] {
+    if (!Array.isArray(items)) {
+      this.fail(path, `expected array, got ${JSON.stringify(items)}`);
+    }
+    return items.map((item, i) => convert.call(this, item, `${path}[${i}]`));
+  }
+
+  /**
+   * 按kind转换节点本身，span由node统一设置
+   */
+  private decode(json: NodeJSON, path: string): ast.Node {
+    const at = (field: string) => `${path}.${field}`;
+
+    switch (json.kind) {
+      case "Program": {
+        const program = new ast.Program();
+        program.statements = this.list(
+          json.statements,
+          at("statements"),
+          this.statement
+        );
+        return program;
+      }
+
+      case "LetStatement":
+        return new ast.LetStatement(
+          newToken(token.LET, "let"),
+          this.bindingTarget(json.name, at("name")),
+          this.expression(json.value, at("value"))
+        );
+
+      case "ReturnStatement":
+        return new ast.ReturnStatement(
+          newToken(token.RETURN, "return"),
+          this.expression(json.returnValue, at("returnValue"))
+        );
+
+      case "ExpressionStatement": {
+        const expression = this.expression(json.expression, at("expression"));
+        return new ast.ExpressionStatement(firstToken(expression), expression);
+      }
+
+      case "BlockStatement": {
+        const block = new ast.BlockStatement(newToken(token.LBRACE, "{"));
+        block.statements = this.list(
+          json.statements,
+          at("statements"),
+          this.statement
+        );
+        return block;
+      }
+
+      case "WhileStatement":
+        return new ast.WhileStatement(
+          newToken(token.WHILE, "while"),
+          this.expression(json.condition, at("condition")),
+          this.loopBody(json.body, at("body"))
+        );
+
+      case "ForInStatement":
+        return new ast.ForInStatement(
+          newToken(token.FOR, "for"),
+          this.identifier(json.variable, at("variable")),
+          this.expression(json.iterable, at("iterable")),
+          this.loopBody(json.body, at("body"))
+        );
+
+      case "BreakStatement":
+      case "ContinueStatement":
+        if (this.loopDepth === 0) {
+          this.fail(path, `${json.kind} outside of a loop`);
+        }
+        return json.kind === "BreakStatement"
+          ? new ast.BreakStatement(newToken(token.BREAK, "break"))
+          : new ast.ContinueStatement(newToken(token.CONTINUE, "continue"));
+
+      case "ErrorStatement":
+        return new ast.ErrorStatement(newToken(token.ILLEGAL, ""));
+
+      case "ErrorExpression":
+        return new ast.ErrorExpression(newToken(token.ILLEGAL, ""));
+
+      case "Identifier":
+        this.expectType(json.value, "string", at("value"));
+        // 名字必须能被重新解析为同一个标识符，不能是关键字或者表达式
+        if (!isIdentifierName(json.value)) {
+          this.fail(
+            at("value"),
+            `expected identifier name, got ${JSON.stringify(json.value)}`
+          );
+        }
+        return new ast.Identifier(newToken(token.IDENT, json.value), json.value);
+
+      case "IntegerLiteral":
+        // 和解析出的整数字面量一样，只能是非负的安全整数
+        if (!Number.isSafeInteger(json.value) || json.value < 0) {
+          this.fail(
+            at("value"),
+            `expected non-negative integer, got ${JSON.stringify(json.value)}`
+          );
+        }
+        return new ast.IntegerLiteral(
+          newToken(
+            token.INT,
+            this.raw(json.raw, json.value, token.INT, at("raw")) ??
+              String(json.value)
+          ),
+          json.value
+        );
+
+      case "FloatLiteral": {
+        this.expectType(json.value, "number", at("value"));
+        // 整数值也要写成浮点数的形式，否则重新解析时会变成整数
+        const raw =
+          this.raw(json.raw, json.value, token.FLOAT, at("raw")) ??
+          (Number.isInteger(json.value)
+            ? json.value.toFixed(1)
+            : String(json.value));
+        return new ast.FloatLiteral(newToken(token.FLOAT, raw), json.value);
+      }
+
+      case "StringLiteral":
+        this.expectType(json.value, "string", at("value"));
+        return new ast.StringLiteral(
+          newToken(token.STRING, json.value),
+          json.value
+        );
+
+      case "InterpolatedString": {
+        const strings = this.list(json.strings, at("strings"), (s, p) => {
+          this.expectType(s, "string", p);
+          return s;
+        });
+        const expressions = this.list(
+          json.expressions,
+          at("expressions"),
+          this.expression
+        );
+        if (strings.length !== expressions.length + 1) {
+          this.fail(
+            path,
+            "strings must have exactly one more item than expressions"
+          );
+        }
+        return new ast.InterpolatedString(
+          newToken(token.TEMPLATE_HEAD, strings[0]),
+          strings,
+          expressions
+        );
+      }
+
+      case "BooleanLiteral":
+        this.expectType(json.value, "boolean", at("value"));
+        return new ast.BooleanLiteral(
+          json.value
+            ? newToken(token.TRUE, "true")
+            : newToken(token.FALSE, "false"),
+          json.value
+        );
+
+      case "ArrayLiteral": {
+        const array = new ast.ArrayLiteral(newToken(token.LBRACKET, "["));
+        array.elements = this.list(json.elements, at("elements"), this.expression);
+        return array;
+      }
+
+      case "HashLiteral": {
+        const hash = new ast.HashLiteral(newToken(token.LBRACE, "{"));
+        this.list(json.pairs, at("pairs"), (pair, p) => {
+          this.expectObject(pair, "key-value pair", p);
+          hash.pairs.set(
+            this.expression(pair.key, `${p}.key`),
+            this.expression(pair.value, `${p}.value`)
+          );
+        });
+        return hash;
+      }
+
+      case "PrefixExpression":
+        this.operator(json.operator, at("operator"), prefixOperators, true);
+        return new ast.PrefixExpression(
+          operatorToken(json.operator),
+          json.operator,
+          this.expression(json.right, at("right"))
+        );
+
+      case "InfixExpression":
+        this.operator(json.operator, at("operator"), infixOperators, true);
+        return new ast.InfixExpression(
+          operatorToken(json.operator),
+          this.expression(json.left, at("left")),
+          json.operator,
+          this.expression(json.right, at("right"))
+        );
+
+      case "AssignExpression":
+        this.operator(json.operator, at("operator"), assignOperators, false);
+        this.expectKind(
+          json.target,
+          at("target"),
+          "Identifier or IndexExpression",
+          (kind) => kind === "Identifier" || kind === "IndexExpression"
+        );
+        return new ast.AssignExpression(
+          operatorToken(json.operator),
+          this.expression(json.target, at("target")),
+          json.operator,
+          this.expression(json.value, at("value"))
+        );
+
+      case "IfExpression": {
+        let alternative: ast.BlockStatement | ast.IfExpression | undefined;
+        if (json.alternative !== undefined) {
+          this.expectKind(
+            json.alternative,
+            at("alternative"),
+            "BlockStatement or IfExpression",
+            (kind) => kind === "BlockStatement" || kind === "IfExpression"
+          );
+          alternative = this.node(json.alternative, at("alternative")) as
+            | ast.BlockStatement
+            | ast.IfExpression;
+        }
+        return new ast.IfExpression(
+          newToken(token.IF, "if"),
+          this.expression(json.condition, at("condition")),
+          this.block(json.consequence, at("consequence")),
+          alternative
+        );
+      }
+
+      case "FunctionLiteral": {
+        const parameters = this.list(
+          json.parameters,
+          at("parameters"),
+          this.bindingTarget
+        );
+        const func = new ast.FunctionLiteral(
+          newToken(token.FUNCTION, "fn"),
+          this.functionBody(json.body, at("body"))
+        );
+        func.parameters = parameters;
+        return func;
+      }
+
+      case "MacroLiteral": {
+        const parameters = this.list(
+          json.parameters,
+          at("parameters"),
+          this.identifier
+        );
+        const macro = new ast.MacroLiteral(
+          newToken(token.MACRO, "macro"),
+          this.functionBody(json.body, at("body"))
+        );
+        macro.parameters = parameters;
+        return macro;
+      }
+
+      case "CallExpression": {
+        const call = new ast.CallExpression(
+          newToken(token.LPAREN, "("),
+          this.expression(json.func, at("func"))
+        );
+        call.args = this.list(json.args, at("args"), this.expression);
+        return call;
+      }
+
+      case "IndexExpression":
+        return new ast.IndexExpression(
+          newToken(token.LBRACKET, "["),
+          this.expression(json.left, at("left")),
+          this.expression(json.index, at("index"))
+        );
+
+      case "MatchExpression": {
+        const match = new ast.MatchExpression(
+          newToken(token.MATCH, "match"),
+          this.expression(json.subject, at("subject"))
+        );
+        match.arms = this.list(json.arms, at("arms"), (arm, p) => {
+          this.expectKind(arm, p, "MatchArm", (kind) => kind === "MatchArm");
+          return this.node(arm, p) as ast.MatchArm;
+        });
+        return match;
+      }
+
+      case "MatchArm": {
+        const pattern = this.pattern(json.pattern, at("pattern"));
+        const guard =
+          json.guard === undefined
+            ? undefined
+            : this.expression(json.guard, at("guard"));
+        return new ast.MatchArm(
+          firstToken(pattern),
+          pattern,
+          this.expression(json.body, at("body")),
+          guard
+        );
+      }
+
+      case "WildcardPattern":
+        return new ast.WildcardPattern(newToken(token.IDENT, "_"));
+
+      case "IdentifierPattern": {
+        const name = this.identifier(json.name, at("name"));
+        if (name.value === "_") {
+          this.fail(at("name"), 'use WildcardPattern instead of "_"');
+        }
+        return new ast.IdentifierPattern(name.token, name);
+      }
+
+      case "LiteralPattern": {
+        const value = this.patternLiteral(json.value, at("value"));
+        return new ast.LiteralPattern(firstToken(value), value);
+      }
+
+      case "ArrayPattern": {
+        const pattern = new ast.ArrayPattern(newToken(token.LBRACKET, "["));
+        pattern.elements = this.list(json.elements, at("elements"), this.pattern);
+        if (json.rest !== undefined) {
+          pattern.rest = this.identifier(json.rest, at("rest"));
+        }
+        return pattern;
+      }
+
+      case "HashPattern": {
+        const pattern = new ast.HashPattern(newToken(token.LBRACE, "{"));
+        this.list(json.pairs, at("pairs"), (pair, p) => {
+          this.expectObject(pair, "key-value pair", p);
+          pattern.pairs.set(
+            this.patternLiteral(pair.key, `${p}.key`),
+            this.pattern(pair.value, `${p}.value`)
+          );
+        });
+        return pattern;
+      }
+
+      default:
+        return this.fail(
+          path,
+          `unknown node kind ${JSON.stringify((json as { kind: unknown }).kind)}`
+        );
+    }
+  }
+
+  /**
+   * 检查节点的kind是否符合要求
+   */
+  private expectKind(
+    json: NodeJSON,
+    path: string,
+    expected: string,
+    accept: (kind: string) => boolean
+  ): void {
+    if (typeof json !== "object" || json === null || !accept(json.kind)) {
+      const got =
+        typeof json === "object" && json !== null
+          ? json.kind
+          : JSON.stringify(json);
+      this.fail(path, `expected ${expected}, got ${got}`);
+    }
+  }
+
+  /**
+   * 检查字段的类型
+   */
+  private expectType(value: unknown, type: string, path: string): void {
+    if (typeof value !== type) {
+      this.fail(path, `expected ${type}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  /**
+   * 检查字段是否是对象
+   */
+  private expectObject(value: unknown, expected: string, path: string): void {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(path, `expected ${expected}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  /**
+   * 抛出带有路径的错误
+   */
+  private fail(path: string, message: string): never {
+    throw new Error(`invalid AST JSON at ${path}: ${message}`);
+  }
+}
+
+/**
+ * 检查字符串能否被词法分析为一个同名的标识符Token
+ */
+function isIdentifierName(name: string): boolean {
+  const { tokens, diagnostics } = tokenize(name);
+  return (
+    diagnostics.length === 0 &&
+    tokens.length === 2 &&
+    tokens[0].Type === token.IDENT &&
+    tokens[0].Literal === name
+  );
+}
+
+/**
+ * 创建一个新的Token
+ */
+function newToken(type: token.TokenType, literal: string): token.Token {
+  return { Type: type, Literal: literal };
+}
+
+/**
+ * 创建运算符Token
+ * 内置运算符的TokenType就是运算符本身，通过registerOperator注册的运算符使用注册时的TokenType
+ */
+function operatorToken(operator: string): token.Token {
+  const custom = token.lookupOperator(operator, 0);
+  const type = custom && custom.literal === operator ? custom.type : operator;
+  return newToken(type, operator);
+}
+
+/**
+ * 获取节点的第一个Token，用于ExpressionStatement等以子节点开头的节点
+ */
+function firstToken(node: ast.Node): token.Token {
+  if (node instanceof ast.InfixExpression) {
+    return firstToken(node.left);
+  }
+  if (node instanceof ast.AssignExpression) {
+    return firstToken(node.target);
+  }
+  if (node instanceof ast.CallExpression) {
+    return firstToken(node.func);
+  }
+  if (node instanceof ast.IndexExpression) {
+    return firstToken(node.left);
+  }
+  return (node as { token?: token.Token }).token ?? newToken(token.ILLEGAL, "");
+}
@@ -0,0 +1,269 @@
+/**
+ * AST遍历工具的单元测试
+ *
+ * 测试visit的分派、walk的遍历顺序和控制指令，以及transform的不可变变换
+ */
+
+import { describe, it, expect } from "vitest";
+import * as ast from "./ast";
+import * as token from "../token/token";
+import { visit, walk, transform, children } from "./visitor";
+import type { Visitor } from "./visitor";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+
+/**
+ * 辅助函数：解析程序
+ */
+function parse(input: string): ast.Program {
+  return new Parser(new Lexer(input)).parseProgram();
+}
+
+/**
+ * 辅助函数：列出walk进入的所有节点的类名
+ */
+function enterOrder(node: ast.Node): string[] {
+  const names: string[] = [];
+  walk(node, { enter: (n) => void names.push(n.constructor.name) });
+  return names;
+}
+
+/**
+ * 计算表达式最大嵌套深度的Visitor，每种节点都要有对应的方法
+ */
+const depth: Visitor<number> = {
+  visitProgram: (node) => maxDepth(node),
+  visitLetStatement: (node) => maxDepth(node),
+  visitReturnStatement: (node) => maxDepth(node),
+  visitExpressionStatement: (node) => visit(node.expression, depth),
+  visitBlockStatement: (node) => maxDepth(node),
+  visitWhileStatement: (node) => maxDepth(node),
+  visitForInStatement: (node) => maxDepth(node),
+  visitBreakStatement: () => 0,
+  visitContinueStatement: () => 0,
+  visitErrorStatement: () => 0,
+  visitErrorExpression: () => 0,
+  visitIdentifier: () => 1,
+  visitIntegerLiteral: () => 1,
+  visitFloatLiteral: () => 1,
+  visitStringLiteral: () => 1,
+  visitInterpolatedString: (node) => 1 + maxDepth(node),
+  visitBooleanLiteral: () => 1,
+  visitArrayLiteral: (node) => 1 + maxDepth(node),
+  visitHashLiteral: (node) => 1 + maxDepth(node),
+  visitPrefixExpression: (node) => 1 + maxDepth(node),
+  visitInfixExpression: (node) => 1 + maxDepth(node),
+  visitAssignExpression: (node) => 1 + maxDepth(node),
+  visitIfExpression: (node) => 1 + maxDepth(node),
+  visitFunctionLiteral: (node) => 1 + maxDepth(node),
+  visitMacroLiteral: (node) => 1 + maxDepth(node),
+  visitCallExpression: (node) => 1 + maxDepth(node),
+  visitIndexExpression: (node) => 1 + maxDepth(node),
+  visitWildcardPattern: () => 1,
+  visitIdentifierPattern: () => 1,
+  visitLiteralPattern: () => 1,
+  visitArrayPattern: (node) => 1 + maxDepth(node),
+  visitHashPattern: (node) => 1 + maxDepth(node),
+  visitMatchArm: (node) => maxDepth(node),
+  visitMatchExpression: (node) => 1 + maxDepth(node),
+};
+
+/**
+ * 辅助函数：子节点中最大的深度
+ */
+function maxDepth(node: ast.Node): number {
+  return Math.max(0, ...children(node).map((child) => visit(child, depth)));
+}
+
+describe("AST Visitor", () => {
+  it("visit应该调用与节点类型对应的方法", () => {
+    expect(visit(parse("1"), depth)).toBe(1);
+    expect(visit(parse("-(1 + f(x))"), depth)).toBe(4);
+    expect(visit(parse("let a = [1, [2, {3: [4]}]];"), depth)).toBe(5);
+    expect(visit(parse("match (x) { [a, ...b] => a, _ => 0 }"), depth)).toBe(3);
+  });
+
+  it("visit遇到未知节点时应该抛出错误", () => {
+    class CustomNode implements ast.Node {
+      readonly kind = "CustomNode";
+      tokenLiteral(): string { return ""; }
+      toString(): string { return ""; }
+    }
+
+    expect(() => visit(new CustomNode(), depth)).toThrow(
+      "no visitor method for CustomNode"
+    );
+  });
+
+  it("walk应该按源代码顺序遍历所有子节点", () => {
+    expect(enterOrder(parse("let [a, ...b] = f(1, x);"))).toEqual([
+      "Program",
+      "LetStatement",
+      "ArrayPattern",
+      "IdentifierPattern",
+      "Identifier",
+      "Identifier",
+      "CallExpression",
+      "Identifier",
+      "IntegerLiteral",
+      "Identifier",
+    ]);
+
+    expect(enterOrder(parse('match (h) { {"k": v} if v => 1 }'))).toEqual([
+      "Program",
+      "ExpressionStatement",
+      "MatchExpression",
+      "Identifier",
+      "MatchArm",
+      "HashPattern",
+      "StringLiteral",
+      "IdentifierPattern",
+      "Identifier",
+      "Identifier",
+      "IntegerLiteral",
+    ]);
+  });
+
+  it("walk应该在离开节点时调用leave并传入父节点", () => {
+    const events: string[] = [];
+    walk(parse("-x"), {
+      enter: (node, parent) => {
+        const name = node.constructor.name;
+        events.push(`enter ${name} < ${parent?.constructor.name}`);
+      },
+      leave: (node) => void events.push(`leave ${node.constructor.name}`),
+    });
+
+    expect(events).toEqual([
+      "enter Program < undefined",
+      "enter ExpressionStatement < Program",
+      "enter PrefixExpression < ExpressionStatement",
+      "enter Identifier < PrefixExpression",
+      "leave Identifier",
+      "leave PrefixExpression",
+      "leave ExpressionStatement",
+      "leave Program",
+    ]);
+  });
+
+  it("walk应该支持skip和stop", () => {
+    const program = parse("let f = fn(a) { a + b }; let c = 1; let d = 2;");
+
+    const names: string[] = [];
+    const completed = walk(program, {
+      enter(node) {
+        if (node instanceof ast.FunctionLiteral) {
+          return "skip";
+        }
+        if (node instanceof ast.Identifier) {
+          names.push(node.value);
+        }
+        if (node instanceof ast.IntegerLiteral) {
+          return "stop";
+        }
+      },
+    });
+
+    expect(names).toEqual(["f", "c"]);
+    expect(completed).toBe(false);
+    expect(walk(program, {})).toBe(true);
+
+    const left: string[] = [];
+    walk(program, {
+      leave(node) {
+        left.push(node.constructor.name);
+        return node instanceof ast.LetStatement ? "stop" : undefined;
+      },
+    });
+    expect(left).toEqual([
+      "Identifier",
+      "Identifier",
+      "Identifier",
+      "Identifier",
+      "InfixExpression",
+      "ExpressionStatement",
+      "BlockStatement",
+      "FunctionLiteral",
+      "LetStatement",
+    ]);
+  });
+
+  it("transform应该返回新的AST并共享没有变化的部分", () => {
+    const program = parse("let x = 1 + 2; let y = [x, 3]; fn([a, b]) { a };");
+    const original = program.toString();
+
+    const folded = transform(program, (node) => {
+      if (
+        node instanceof ast.InfixExpression &&
+        node.left instanceof ast.IntegerLiteral &&
+        node.right instanceof ast.IntegerLiteral
+      ) {
+        const value = node.left.value + node.right.value;
+        const literal = { Type: token.INT, Literal: String(value) };
+        return new ast.IntegerLiteral(literal, value);
+      }
+      return node;
+    }) as ast.Program;
+
+    expect(folded.toString()).toBe("let x = 3;let y = [x, 3];fn([a, b]) a");
+    expect(program.toString()).toBe(original);
+    expect(folded).toBeInstanceOf(ast.Program);
+    expect(folded).not.toBe(program);
+    expect(folded.statements[0]).toBeInstanceOf(ast.LetStatement);
+    expect(folded.statements[0].span).toEqual(program.statements[0].span);
+    expect(folded.statements[1]).toBe(program.statements[1]);
+    expect(folded.statements[2]).toBe(program.statements[2]);
+
+    expect(transform(program, (node) => node)).toBe(program);
+  });
+
+  it("transform应该替换所有节点类型中的子节点", () => {
+    const one = () => new ast.IntegerLiteral({ Type: token.INT, Literal: "1" }, 1);
+    const turnOneIntoTwo = (node: ast.Node): ast.Node => {
+      if (node instanceof ast.IntegerLiteral && node.value === 1) {
+        return new ast.IntegerLiteral({ Type: token.INT, Literal: "2" }, 2);
+      }
+      return node;
+    };
+
+    expect(transform(one(), turnOneIntoTwo).toString()).toBe("2");
+
+    const input = [
+      "let x = 1 + -1;",
+      "return [1, x[1]];",
+      "if (1) { 1 } else { 1 };",
+      "fn(a) { a = 1; a += 1 };",
+      "while (1) { 1 };",
+      "for (v in {1: 1}) { f(1) };",
+      '"${1}";',
+      "match (1) { [1, {1: x}] if 1 => 1 };",
+    ].join("\n");
+    const program = parse(input);
+    const original = program.toString();
+
+    const modified = transform(program, turnOneIntoTwo);
+
+    expect(modified.toString()).toBe(original.replace(/1/g, "2"));
+    expect(modified.toString()).not.toContain("1");
+    expect(program.toString()).toBe(original);
+    expect(modified.span).toEqual(program.span);
+  });
+
+  it("transform应该进入模式和函数参数", () => {
+    const program = parse(
+      'let [a, {"k": b}] = v; fn(c) { c }; match (v) { [d, ...e] => d }; for (f in v) { f }'
+    );
+
+    const renamed = transform(program, (node) => {
+      if (node instanceof ast.Identifier) {
+        const name = node.value + "1";
+        return new ast.Identifier({ Type: token.IDENT, Literal: name }, name);
+      }
+      return node;
+    });
+
+    expect(renamed.toString()).toBe(
+      'let [a1, {"k": b1}] = v1;fn(c1) c1match (v1) { [d1, ...e1] => d1 }for (f1 in v1) f1'
+    );
+  });
+});
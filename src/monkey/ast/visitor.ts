@@ -0,0 +1,323 @@
+/**
+ * AST遍历工具
+ *
+ * 提供三种处理AST的方式，使用者不需要再自己编写instanceof判断链：
+ * - Visitor / visit：为每种节点分别编写处理方法，visit根据节点的类型调用对应的方法
+ * - walk：深度优先遍历整棵树，进入和离开每个节点时调用回调，可以跳过子树或者提前停止
+ * - transform：自底向上替换节点，返回新的AST，不修改原来的AST
+ *
+ * 节点的种类由ast模块导出的类自动得到，ast.ts中新增节点类之后，
+ * 本文件中的childFields和所有Visitor的实现都要处理新节点，否则无法通过编译
+ */
+
+import * as ast from "./ast";
+
+// ==================== 节点种类 ====================
+
+type AstModule = typeof ast;
+
+/**
+ * 所有AST节点类的类名，例如 "LetStatement"、"InfixExpression"
+ */
+export type NodeName = {
+  [K in keyof AstModule]: AstModule[K] extends new (
+    ...args: never[]
+  ) => ast.Node
+    ? K
+    : never;
+}[keyof AstModule];
+
+/**
+ * 类名对应的节点类型，例如 NodeOf<"Identifier"> 是 ast.Identifier
+ */
+export type NodeOf<K extends NodeName> = AstModule[K] extends new (
+  ...args: never[]
+) => infer T
+  ? T
+  : never;
+
+/**
+ * 可以保存子节点的字段的类型
+ */
+type ChildValue =
+  | ast.Node
+  | ast.Node[]
+  | Map<ast.Node, ast.Node>
+  | undefined;
+
+/**
+ * 节点中保存子节点的字段名
+ */
+type ChildField<T> = {
+  [P in keyof T]-?: T[P] extends ChildValue ? P : never;
+}[keyof T];
+
+/**
+ * 每种节点保存子节点的字段，按照子节点在源代码中出现的顺序排列
+ *
+ * 哈希表字面量和哈希表模式的pairs按键、值交替的顺序访问
+ * 节点类不在ast.AnyNode中，或者kind与类名不同时，对应的字段类型为never，无法通过编译
+ */
+const childFields: {
+  [K in NodeName]: NodeOf<K> extends ast.AnyNode & { kind: K }
+    ? readonly ChildField<NodeOf<K>>[]
+    : never;
+} = {
+  Program: ["statements"],
+  LetStatement: ["name", "value"],
+  ReturnStatement: ["returnValue"],
+  ExpressionStatement: ["expression"],
+  BlockStatement: ["statements"],
+  WhileStatement: ["condition", "body"],
+  ForInStatement: ["variable", "iterable", "body"],
+  BreakStatement: [],
+  ContinueStatement: [],
+  ErrorStatement: [],
+  ErrorExpression: [],
+  Identifier: [],
+  IntegerLiteral: [],
+  FloatLiteral: [],
+  StringLiteral: [],
+  InterpolatedString: ["expressions"],
+  BooleanLiteral: [],
+  ArrayLiteral: ["elements"],
+  HashLiteral: ["pairs"],
+  PrefixExpression: ["right"],
+  InfixExpression: ["left", "right"],
+  AssignExpression: ["target", "value"],
+  IfExpression: ["condition", "consequence", "alternative"],
+  FunctionLiteral: ["parameters", "body"],
+  MacroLiteral: ["parameters", "body"],
+  CallExpression: ["func", "args"],
+  IndexExpression: ["left", "index"],
+  WildcardPattern: [],
+  IdentifierPattern: ["name"],
+  LiteralPattern: ["value"],
+  ArrayPattern: ["elements", "rest"],
+  HashPattern: ["pairs"],
+  MatchArm: ["pattern", "guard", "body"],
+  MatchExpression: ["subject", "arms"],
+};
+
+/**
+ * 获取节点的类名，即内置节点的kind
+ * 不是ast模块中定义的节点（例如Parser扩展定义的节点）返回undefined
+ */
+function nodeName(node: ast.Node): NodeName | undefined {
+  return Object.hasOwn(childFields, node.kind)
+    ? (node.kind as NodeName)
+    : undefined;
+}
+
+/**
+ * 获取节点保存子节点的字段
+ * 未知的节点没有子节点
+ */
+function fieldsOf(node: ast.Node): readonly string[] {
+  const name = nodeName(node);
+  return name ? childFields[name] : [];
+}
+
+/**
+ * 按源代码中的顺序返回节点的直接子节点
+ */
+export function children(node: ast.Node): ast.Node[] {
+  const result: ast.Node[] = [];
+  for (const field of fieldsOf(node)) {
+    const value = (node as unknown as Record<string, ChildValue>)[field];
+    if (value instanceof Map) {
+      value.forEach((v, k) => result.push(k, v));
+    } else if (Array.isArray(value)) {
+      result.push(...value);
+    } else if (value) {
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+// ==================== Visitor ====================
+
+/**
+ * Visitor接口
+ *
+ * 每种节点对应一个visit方法，方法名为 "visit" 加上类名，例如visitLetStatement
+ * 所有方法都必须实现，ast.ts中新增节点类之后，已有的Visitor会因为缺少方法而无法通过编译
+ *
+ * @typeParam R - 每个visit方法的返回值类型
+ */
+export type Visitor<R> = {
+  [K in NodeName as `visit${K}`]: (node: NodeOf<K>) => R;
+};
+
+/**
+ * 调用visitor中与节点类型对应的方法
+ *
+ * visit只处理节点本身，是否以及如何处理子节点由visit方法自己决定
+ * 不是ast模块中定义的节点会抛出错误
+ *
+ * @example
+ * ```typescript
+ * const depth: Visitor<number> = {
+ *   visitIdentifier: () => 1,
+ *   visitInfixExpression: (node) =>
+ *     1 + Math.max(visit(node.left, depth), visit(node.right, depth)),
+ *   // ... 其余节点
+ * };
+ * ```
+ */
+export function visit<R>(node: ast.Node, visitor: Visitor<R>): R {
+  const name = nodeName(node);
+  if (!name) {
+    throw new Error(`no visitor method for ${node.constructor.name}`);
+  }
+  const method = visitor[`visit${name}`] as (node: ast.Node) => R;
+  return method.call(visitor, node);
+}
+
+// ==================== walk ====================
+
+/**
+ * 遍历的控制指令
+ * - "skip"：不进入当前节点的子节点（只能在enter中使用，当前节点的leave仍会调用）
+ * - "stop"：立即结束整个遍历，之后不再调用任何回调
+ */
+export type WalkControl = "skip" | "stop";
+
+/**
+ * walk的回调
+ *
+ * parent是节点的父节点，根节点的parent为null
+ * 回调返回undefined时继续正常遍历
+ */
+export interface WalkCallbacks {
+  enter?: (node: ast.Node, parent: ast.Node | null) => WalkControl | void;
+  leave?: (node: ast.Node, parent: ast.Node | null) => WalkControl | void;
+}
+
+/**
+ * 深度优先遍历AST
+ *
+ * 进入节点时调用enter，遍历完所有子节点之后调用leave，子节点按源代码中的顺序遍历
+ * 不是ast模块中定义的节点没有子节点，但仍会调用enter和leave
+ *
+ * @returns 遍历被 "stop" 提前结束时返回false，否则返回true
+ *
+ * @example
+ * ```typescript
+ * // 收集所有标识符，但不进入函数体
+ * const names: string[] = [];
+ * walk(program, {
+ *   enter(node) {
+ *     if (node instanceof FunctionLiteral) return "skip";
+ *     if (node instanceof Identifier) names.push(node.value);
+ *   },
+ * });
+ * ```
+ */
+export function walk(node: ast.Node, callbacks: WalkCallbacks): boolean {
+  return walkNode(node, null, callbacks);
+}
+
+/**
+ * 遍历一个节点及其子树
+ *
+ * @returns 是否继续遍历
+ */
+function walkNode(
+  node: ast.Node,
+  parent: ast.Node | null,
+  callbacks: WalkCallbacks
+): boolean {
+  const control = callbacks.enter?.(node, parent);
+  if (control === "stop") {
+    return false;
+  }
+
+  if (control !== "skip") {
+    for (const child of children(node)) {
+      if (!walkNode(child, node, callbacks)) {
+        return false;
+      }
+    }
+  }
+
+  return callbacks.leave?.(node, parent) !== "stop";
+}
+
+// ==================== transform ====================
+
+/**
+ * transform对每个节点调用的函数，返回值会替换掉该节点
+ * 不需要修改的节点原样返回即可
+ */
+export type TransformFunc = (node: ast.Node) => ast.Node;
+
+/**
+ * 自底向上变换AST
+ *
+ * 先变换子节点，再对节点本身调用fn（后序遍历），因此fn看到的节点的子节点都已经变换过了
+ *
+ * transform不会修改传入的AST：子节点有变化的节点会复制一份（保留Token和位置信息），
+ * 子树中没有任何变化时直接返回原来的节点，因此结果和原来的AST可能共享没有变化的部分，
+ * fn也不应该修改传入的节点，而是返回新的节点
+ *
+ * transform会进入AST中所有的子节点，包括模式、函数参数和for循环变量，
+ * quote中unquote的替换和宏展开也都基于transform
+ *
+ * @example
+ * ```typescript
+ * // 常量折叠：把两个整数相加的表达式替换为结果
+ * const folded = transform(program, (node) => {
+ *   if (
+ *     node instanceof InfixExpression &&
+ *     node.operator === "+" &&
+ *     node.left instanceof IntegerLiteral &&
+ *     node.right instanceof IntegerLiteral
+ *   ) {
+ *     const value = node.left.value + node.right.value;
+ *     return new IntegerLiteral({ Type: INT, Literal: String(value) }, value);
+ *   }
+ *   return node;
+ * });
+ * ```
+ */
+export function transform(node: ast.Node, fn: TransformFunc): ast.Node {
+  let copy: Record<string, unknown> | null = null;
+
+  for (const field of fieldsOf(node)) {
+    const value = (node as unknown as Record<string, ChildValue>)[field];
+    const transformed = transformValue(value, fn);
+    if (transformed !== value) {
+      // 第一次遇到变化的子节点时复制节点，复制保留原来的类
+      copy ??= Object.assign(Object.create(Object.getPrototypeOf(node)), node);
+      copy![field] = transformed;
+    }
+  }
+
+  return fn((copy as ast.Node | null) ?? node);
+}
+
+/**
+ * 变换一个字段的值
+ * 没有变化时返回原来的值，数组和Map只有在其中的节点有变化时才会复制
+ */
+function transformValue(value: ChildValue, fn: TransformFunc): ChildValue {
+  if (value instanceof Map) {
+    const pairs = Array.from(value, ([k, v]) => [
+      transform(k, fn),
+      transform(v, fn),
+    ]);
+    const changed = Array.from(value).some(
+      ([k, v], i) => pairs[i][0] !== k || pairs[i][1] !== v
+    );
+    return changed ? new Map(pairs as [ast.Node, ast.Node][]) : value;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => transform(item, fn));
+    return items.some((item, i) => item !== value[i]) ? items : value;
+  }
+
+  return value && transform(value, fn);
+}
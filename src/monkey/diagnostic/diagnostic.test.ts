@@ -0,0 +1,63 @@
+/**
+ * Diagnostic模块的单元测试
+ * 
+ * 测试各个阶段产生的诊断信息是否能统一处理
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatDiagnostic, runtimeDiagnostic } from "./diagnostic";
+import type { Diagnostic } from "./diagnostic";
+import { ErrorObject } from "../object/object";
+import { execute } from "../index";
+
+describe("Diagnostic", () => {
+  it("应该把诊断信息格式化为 行:列: 信息", () => {
+    const diagnostic: Diagnostic = {
+      code: "unterminated-string",
+      severity: "error",
+      phase: "lex",
+      span: {
+        start: { line: 3, column: 7, offset: 20 },
+        end: { line: 3, column: 9, offset: 22 },
+      },
+      message: "unterminated string literal",
+      related: [],
+      hints: [],
+    };
+
+    expect(formatDiagnostic(diagnostic)).toBe("3:7: unterminated string literal");
+    expect(formatDiagnostic({ ...diagnostic, span: undefined })).toBe("unterminated string literal");
+  });
+
+  it("应该把运行时错误转换为诊断信息", () => {
+    const error = new ErrorObject("division by zero", "division-by-zero");
+
+    expect(runtimeDiagnostic(error)).toEqual({
+      code: "division-by-zero",
+      severity: "error",
+      phase: "runtime",
+      span: undefined,
+      message: "division by zero",
+      related: [],
+      hints: [],
+    });
+  });
+
+  it("execute应该返回每个阶段的诊断信息", () => {
+    const tests = [
+      { input: "let x = #;", expected: [["lex", "unexpected-character"]] },
+      { input: "let = 1;", expected: [["parse", "unexpected-token"]] },
+      { input: "/* /* */ 1 + true", expected: [["lex", "nested-block-comment"], ["runtime", "type-mismatch"]] },
+      { input: "/* /* */ 1 + 1", expected: [["lex", "nested-block-comment"]] },
+    ];
+
+    for (const test of tests) {
+      const result = execute(test.input);
+      expect(result.diagnostics.map((d) => [d.phase, d.code])).toEqual(test.expected);
+    }
+
+    const result = execute("let a = 1;\na + true");
+    expect(result.success).toBe(false);
+    expect(result.diagnostics[0].span?.start).toEqual({ line: 2, column: 1, offset: 11 });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Diagnostic模块（诊断信息）
+ *
+ * 定义词法分析、语法分析和运行时共用的诊断信息模型
+ * 每条诊断都带有稳定的错误码、严重程度、所属阶段和源代码位置，
+ * 编辑器、CI等工具可以直接按字段过滤和展示，而不需要解析错误文本
+ */
+
+import * as token from "../token/token";
+import type { ErrorObject } from "../object/object";
+
+/**
+ * 严重程度
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * 产生诊断信息的阶段
+ * - lex：词法分析
+ * - parse：语法分析
+ * - runtime：求值
+ */
+export type DiagnosticPhase = "lex" | "parse" | "runtime";
+
+/**
+ * 相关位置
+ * 用于指出与诊断相关的其他源代码位置，例如未闭合的括号对应的左括号
+ */
+export interface RelatedInformation {
+  message: string;     // 说明文字
+  span?: token.Span;   // 相关的源代码范围
+}
+
+/**
+ * Diagnostic接口
+ * 表示一条诊断信息
+ */
+export interface Diagnostic {
+  code: string;                    // 错误码，如 unterminated-string、type-mismatch
+  severity: DiagnosticSeverity;    // 严重程度
+  phase: DiagnosticPhase;          // 所属阶段
+  span?: token.Span;               // 出问题的源代码范围，运行时的部分错误可能没有位置
+  message: string;                 // 诊断信息
+  related: RelatedInformation[];   // 相关位置
+  hints: string[];                 // 修复建议
+}
+
+/**
+ * 将诊断信息格式化为 "行:列: 信息" 的形式，没有位置时只返回信息本身
+ *
+ * @example
+ * ```typescript
+ * formatDiagnostic(diagnostic)  // 返回 "1:9: unterminated string literal"
+ * ```
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  if (diagnostic.span) {
+    return `${token.formatPosition(diagnostic.span.start)}: ${diagnostic.message}`;
+  }
+  return diagnostic.message;
+}
+
+/**
+ * 将运行时错误对象转换为诊断信息
+ */
+export function runtimeDiagnostic(error: ErrorObject): Diagnostic {
+  return {
+    code: error.code,
+    severity: "error",
+    phase: "runtime",
+    span: error.span,
+    message: error.message,
+    related: [],
+    hints: [],
+  };
+}
@@ -12,6 +12,9 @@
  * - push: 向数组添加元素（返回新数组）
  * - puts: 打印输出到控制台
  * - write: 输出内容（可在不同环境中自定义实现）
+ * - int: 转换为整数
+ * - float: 转换为浮点数
+ * - str: 转换为字符串
  */
 
 import * as obj from '../object/object'
@@ -38,7 +41,8 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       // 检查参数个数
       if (args.length !== 1) {
         return new obj.ErrorObject(
-          `wrong number of arguments. got=${args.length}, want=1`
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
         )
       }
 
@@ -56,7 +60,8 @@ export const builtins = new Map<string, obj.BuiltinObject>([
 
       // 不支持的类型
       return new obj.ErrorObject(
-        `argument to 'len' not supported, got ${arg.type()}`
+        `argument to 'len' not supported, got ${arg.type()}`,
+        'invalid-argument'
       )
     }),
   ],
@@ -79,14 +84,16 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       // 检查参数个数
       if (args.length !== 1) {
         return new obj.ErrorObject(
-          `wrong number of arguments. got=${args.length}, want=1`
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
         )
       }
 
       // 检查参数类型
       if (args[0].type() !== obj.ARRAY_OBJ) {
         return new obj.ErrorObject(
-          `argument to 'first' must be ARRAY, got ${args[0].type()}`
+          `argument to 'first' must be ARRAY, got ${args[0].type()}`,
+          'invalid-argument'
         )
       }
 
@@ -119,14 +126,16 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       // 检查参数个数
       if (args.length !== 1) {
         return new obj.ErrorObject(
-          `wrong number of arguments. got=${args.length}, want=1`
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
         )
       }
 
       // 检查参数类型
       if (args[0].type() !== obj.ARRAY_OBJ) {
         return new obj.ErrorObject(
-          `argument to 'last' must be ARRAY, got ${args[0].type()}`
+          `argument to 'last' must be ARRAY, got ${args[0].type()}`,
+          'invalid-argument'
         )
       }
 
@@ -162,14 +171,16 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       // 检查参数个数
       if (args.length !== 1) {
         return new obj.ErrorObject(
-          `wrong number of arguments. got=${args.length}, want=1`
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
         )
       }
 
       // 检查参数类型
       if (args[0].type() !== obj.ARRAY_OBJ) {
         return new obj.ErrorObject(
-          `argument to 'rest' must be ARRAY, got ${args[0].type()}`
+          `argument to 'rest' must be ARRAY, got ${args[0].type()}`,
+          'invalid-argument'
         )
       }
 
@@ -205,14 +216,16 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       // 检查参数个数
       if (args.length !== 2) {
         return new obj.ErrorObject(
-          `wrong number of arguments. got=${args.length}, want=2`
+          `wrong number of arguments. got=${args.length}, want=2`,
+          'wrong-argument-count'
         )
       }
 
       // 检查第一个参数类型
       if (args[0].type() !== obj.ARRAY_OBJ) {
         return new obj.ErrorObject(
-          `argument to 'push' must be ARRAY, got ${args[0].type()}`
+          `argument to 'push' must be ARRAY, got ${args[0].type()}`,
+          'invalid-argument'
         )
       }
 
@@ -272,4 +285,156 @@ export const builtins = new Map<string, obj.BuiltinObject>([
       return new obj.NullObject()
     }),
   ],
+
+  /**
+   * int函数
+   *
+   * 将整数、浮点数或字符串转换为整数
+   * 浮点数向零取整，字符串必须是合法的数字
+   *
+   * @example
+   * ```monkey
+   * int(3.9)      // 返回 3
+   * int(-3.9)     // 返回 -3
+   * int("42")     // 返回 42
+   * ```
+   */
+  [
+    'int',
+    new obj.BuiltinObject((...args: obj.MonkeyObject[]): obj.MonkeyObject => {
+      // 检查参数个数
+      if (args.length !== 1) {
+        return new obj.ErrorObject(
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
+        )
+      }
+
+      const arg = args[0]
+
+      if (arg instanceof obj.IntegerObject) {
+        return arg
+      }
+
+      // 无穷大、NaN和超出安全整数范围的值都不能转换
+      if (arg instanceof obj.FloatObject) {
+        const value = Math.trunc(arg.value)
+        if (!Number.isSafeInteger(value)) {
+          return new obj.ErrorObject(
+            `cannot convert ${arg.inspect()} to INTEGER`,
+            'conversion-failed'
+          )
+        }
+        return new obj.IntegerObject(value)
+      }
+
+      if (arg instanceof obj.StringObject) {
+        const value = parseNumber(arg.value)
+        if (value === null || !Number.isSafeInteger(Math.trunc(value))) {
+          return new obj.ErrorObject(
+            `cannot convert "${arg.value}" to INTEGER`,
+            'conversion-failed'
+          )
+        }
+        return new obj.IntegerObject(Math.trunc(value))
+      }
+
+      return new obj.ErrorObject(
+        `argument to 'int' not supported, got ${arg.type()}`,
+        'invalid-argument'
+      )
+    }),
+  ],
+
+  /**
+   * float函数
+   *
+   * 将整数、浮点数或字符串转换为浮点数
+   *
+   * @example
+   * ```monkey
+   * float(3)        // 返回 3.0
+   * float("2.5")    // 返回 2.5
+   * ```
+   */
+  [
+    'float',
+    new obj.BuiltinObject((...args: obj.MonkeyObject[]): obj.MonkeyObject => {
+      // 检查参数个数
+      if (args.length !== 1) {
+        return new obj.ErrorObject(
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
+        )
+      }
+
+      const arg = args[0]
+
+      if (arg instanceof obj.FloatObject) {
+        return arg
+      }
+
+      if (arg instanceof obj.IntegerObject) {
+        return new obj.FloatObject(arg.value)
+      }
+
+      if (arg instanceof obj.StringObject) {
+        const value = parseNumber(arg.value)
+        if (value === null) {
+          return new obj.ErrorObject(
+            `cannot convert "${arg.value}" to FLOAT`,
+            'conversion-failed'
+          )
+        }
+        return new obj.FloatObject(value)
+      }
+
+      return new obj.ErrorObject(
+        `argument to 'float' not supported, got ${arg.type()}`,
+        'invalid-argument'
+      )
+    }),
+  ],
+
+  /**
+   * str函数
+   *
+   * 将任意值转换为字符串，结果与打印该值时的显示内容相同
+   *
+   * @example
+   * ```monkey
+   * str(42)        // 返回 "42"
+   * str(1.5)       // 返回 "1.5"
+   * str([1, 2])    // 返回 "[1, 2]"
+   * ```
+   */
+  [
+    'str',
+    new obj.BuiltinObject((...args: obj.MonkeyObject[]): obj.MonkeyObject => {
+      // 检查参数个数
+      if (args.length !== 1) {
+        return new obj.ErrorObject(
+          `wrong number of arguments. got=${args.length}, want=1`,
+          'wrong-argument-count'
+        )
+      }
+
+      return new obj.StringObject(args[0].inspect())
+    }),
+  ],
 ])
+
+/**
+ * 将字符串解析为数字
+ *
+ * 允许首尾空白，其余部分必须是完整的十进制数字（可以带小数和指数）
+ *
+ * @returns 解析出的数字，格式不合法时返回null
+ */
+function parseNumber(input: string): number | null {
+  const text = input.trim()
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/.test(text)) {
+    return null
+  }
+  return Number(text)
+}
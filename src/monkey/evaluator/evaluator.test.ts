@@ -4,10 +4,17 @@
  * 测试求值器是否能正确执行各种表达式和语句
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import { Lexer } from "../lexer/lexer";
-import { Parser } from "../parser/parser";
-import { evalNode } from "./evaluator";
+import {
+  Parser,
+  Precedence,
+  registerPrecedence,
+  registerParserExtension,
+} from "../parser/parser";
+import { evalNode, registerNodeEvaluator } from "./evaluator";
+import * as ast from "../ast/ast";
+import * as token from "../token/token";
 import { Environment } from "../object/environment";
 import * as obj from "../object/object";
 
@@ -23,6 +30,12 @@ function testEval(input: string): obj.MonkeyObject | null {
 }
 
 describe("Evaluator", () => {
+  // 每个测试结束后取消测试中注册的语法扩展和求值函数
+  const unregisters: (() => void)[] = [];
+  afterEach(() => {
+    unregisters.splice(0).reverse().forEach((unregister) => unregister());
+  });
+
   it("应该正确求值整数表达式", () => {
     const tests = [
       { input: "5", expected: 5 },
@@ -104,6 +117,10 @@ describe("Evaluator", () => {
       { input: "if (1 > 2) { 10 }", expected: null },
       { input: "if (1 > 2) { 10 } else { 20 }", expected: 20 },
       { input: "if (1 < 2) { 10 } else { 20 }", expected: 10 },
+      { input: "if (1 > 2) { 10 } else if (2 > 1) { 20 } else { 30 }", expected: 20 },
+      { input: "if (1 > 2) { 10 } else if (2 > 3) { 20 } else { 30 }", expected: 30 },
+      { input: "if (1 > 2) { 10 } else if (2 > 3) { 20 }", expected: null },
+      { input: "let x = 3; if (x == 1) { 1 } else if (x == 2) { 2 } else if (x == 3) { 3 }", expected: 3 },
     ];
 
     for (const test of tests) {
@@ -165,6 +182,18 @@ if (10 > 1) {
     }
   });
 
+  it("错误对象应该记录产生错误的位置", () => {
+    const evaluated = testEval(`let a = 1;
+let b = a + missing;`);
+
+    expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+
+    const error = evaluated as obj.ErrorObject;
+    expect(error.message).toBe("identifier not found: missing");
+    expect(error.span!.start).toEqual({ line: 2, column: 13, offset: 23 });
+    expect(error.span!.end).toEqual({ line: 2, column: 20, offset: 30 });
+  });
+
   it("应该正确求值let语句", () => {
     const tests = [
       { input: "let a = 5; a;", expected: 5 },
@@ -345,5 +374,587 @@ let two = "two";
       expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
     }
   });
-});
 
+  it("应该正确求值浮点数表达式", () => {
+    const tests = [
+      { input: "3.14", expected: 3.14 },
+      { input: "-2.5", expected: -2.5 },
+      { input: "0.1 + 0.2", expected: 0.1 + 0.2 },
+      { input: "7 / 2.0", expected: 3.5 },
+      { input: "1.5 * 4", expected: 6 },
+      { input: "10 - 0.5", expected: 9.5 },
+      { input: "1e-3 * 1000", expected: 1 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.FloatObject);
+      expect((evaluated as obj.FloatObject).value).toBe(test.expected);
+    }
+  });
+
+  it("整数与浮点数应该可以混合比较", () => {
+    const tests = [
+      { input: "1 == 1.0", expected: true },
+      { input: "1.0 != 1", expected: false },
+      { input: "1 < 1.5", expected: true },
+      { input: "2.5 > 3", expected: false },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.BooleanObject);
+      expect((evaluated as obj.BooleanObject).value).toBe(test.expected);
+    }
+  });
+
+  it("浮点数应该显示小数点", () => {
+    expect(testEval("3.0")!.inspect()).toBe("3.0");
+    expect(testEval("2.5 * 2")!.inspect()).toBe("5.0");
+    expect(testEval("0.25")!.inspect()).toBe("0.25");
+  });
+
+  it("应该正确求值类型转换内置函数", () => {
+    const tests: Array<{ input: string; expected: obj.MonkeyObject }> = [
+      { input: "int(3.9)", expected: new obj.IntegerObject(3) },
+      { input: "int(-3.9)", expected: new obj.IntegerObject(-3) },
+      { input: 'int(" 42 ")', expected: new obj.IntegerObject(42) },
+      { input: "int(7)", expected: new obj.IntegerObject(7) },
+      { input: "float(3)", expected: new obj.FloatObject(3) },
+      { input: 'float("2.5")', expected: new obj.FloatObject(2.5) },
+      { input: "str(1.5)", expected: new obj.StringObject("1.5") },
+      { input: "str([1, 2.0])", expected: new obj.StringObject("[1, 2.0]") },
+      { input: 'int("abc")', expected: new obj.ErrorObject('cannot convert "abc" to INTEGER') },
+      { input: "float(true)", expected: new obj.ErrorObject("argument to 'float' not supported, got BOOLEAN") },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(test.expected.constructor);
+      expect(evaluated!.inspect()).toBe(test.expected.inspect());
+    }
+  });
+
+  it("浮点数应该可以作为哈希键", () => {
+    const evaluated = testEval('{1.5: "a", 1: "b"}[1.5]');
+    expect(evaluated).toBeInstanceOf(obj.StringObject);
+    expect((evaluated as obj.StringObject).value).toBe("a");
+  });
+
+  it("整数值的浮点数和相等的整数应该是同一个哈希键", () => {
+    const tests = [
+      { input: '{1: "a"}[1.0]', expected: "a" },
+      { input: '{2.0: "b"}[2]', expected: "b" },
+      { input: '{1: "a", 1.0: "b"}[1]', expected: "b" },
+      { input: 'let h = {0: "x"}; h[-0.0] = "y"; h[0]', expected: "y" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.StringObject);
+      expect((evaluated as obj.StringObject).value).toBe(test.expected);
+    }
+
+    expect(testEval('{1: "a"}[1.5]')).toBeInstanceOf(obj.NullObject);
+  });
+
+  it("应该正确求值不同进制的整数", () => {
+    const evaluated = testEval("0xFF + 0b1010 + 0o10 + 1_000");
+    expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+    expect((evaluated as obj.IntegerObject).value).toBe(255 + 10 + 8 + 1000);
+  });
+
+  it("应该支持中文和包含数字的标识符", () => {
+    const evaluated = testEval("let 总数 = 10; let x1 = 2; 总数 * x1");
+    expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+    expect((evaluated as obj.IntegerObject).value).toBe(20);
+  });
+
+  it("应该正确求值比较和逻辑运算符", () => {
+    const tests = [
+      { input: "1 <= 2", expected: true },
+      { input: "2 <= 2", expected: true },
+      { input: "3 <= 2", expected: false },
+      { input: "2 >= 3", expected: false },
+      { input: "2.5 >= 2", expected: true },
+      { input: "true && true", expected: true },
+      { input: "true && false", expected: false },
+      { input: "false || true", expected: true },
+      { input: "false || false", expected: false },
+      { input: "1 && 0", expected: true },
+      { input: "1 < 2 && 2 < 3", expected: true },
+      { input: "let x = 5; x > 0 && x <= 10", expected: true },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.BooleanObject);
+      expect((evaluated as obj.BooleanObject).value).toBe(test.expected);
+    }
+  });
+
+  it("&& 和 || 应该短路求值", () => {
+    // 右侧如果被求值会产生identifier not found错误
+    expect((testEval("false && missing") as obj.BooleanObject).value).toBe(false);
+    expect((testEval("true || missing") as obj.BooleanObject).value).toBe(true);
+    expect((testEval("if (false) { 1 } && missing") as obj.BooleanObject).value).toBe(false);
+
+    const evaluated = testEval("true && missing");
+    expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+    expect((evaluated as obj.ErrorObject).message).toBe("identifier not found: missing");
+  });
+
+  it("应该正确求值取模、幂和位运算", () => {
+    const tests = [
+      { input: "7 % 3", expected: 1 },
+      { input: "-7 % 3", expected: 2 },
+      { input: "7 % -3", expected: -2 },
+      { input: "2 ** 10", expected: 1024 },
+      { input: "2 ** 3 ** 2", expected: 512 },
+      { input: "-2 ** 2", expected: -4 },
+      { input: "6 & 3", expected: 2 },
+      { input: "6 | 3", expected: 7 },
+      { input: "6 ^ 3", expected: 5 },
+      { input: "~5", expected: -6 },
+      { input: "1 << 40", expected: 1099511627776 },
+      { input: "-16 >> 2", expected: -4 },
+      { input: "1 << 64", expected: 0 },
+      { input: "-1 >> 100", expected: -1 },
+      { input: "-7 / 2", expected: -4 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+  });
+
+  it("浮点数的取模和幂运算结果应该是浮点数", () => {
+    const tests = [
+      { input: "7.5 % 2", expected: 1.5 },
+      { input: "-1.5 % 1", expected: 0.5 },
+      { input: "2 ** -1", expected: 0.5 },
+      { input: "4.0 ** 0.5", expected: 2 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.FloatObject);
+      expect((evaluated as obj.FloatObject).value).toBe(test.expected);
+    }
+  });
+
+  it("整数除以0和对0取模应该返回错误", () => {
+    const tests = [
+      { input: "1 / 0", expected: "division by zero" },
+      { input: "1 % 0", expected: "division by zero" },
+      { input: "1 << -1", expected: "negative shift count: -1" },
+      { input: "1.5 & 1", expected: "unknown operator: FLOAT & INTEGER" },
+      { input: "~true", expected: "unknown operator: ~BOOLEAN" },
+      { input: "2 ** 100", expected: "integer overflow" },
+      { input: "(2 ** 60 * 2 ** 60) & 1", expected: "integer overflow" },
+      { input: "1 << (2 ** 60 * 2 ** 60)", expected: "integer overflow" },
+      { input: "~(2 ** 60 * 2 ** 60)", expected: "integer overflow" },
+      { input: "1 << 62", expected: "integer overflow" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.expected);
+    }
+  });
+
+  it("应该正确求值插值字符串", () => {
+    const tests = [
+      { input: 'let name = "Monkey"; let age = 3; "Hello, ${name}, you are ${age + 1}"', expected: "Hello, Monkey, you are 4" },
+      { input: '"${1.5} ${true} ${[1, "a"]} ${if (false) { 1 }}"', expected: "1.5 true [1, a] null" },
+      { input: '"${"nested ${1 + 1}"}!"', expected: "nested 2!" },
+      { input: '"\\${x}"', expected: "${x}" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.StringObject);
+      expect((evaluated as obj.StringObject).value).toBe(test.expected);
+    }
+
+    const evaluated = testEval('"a${missing}b"');
+    expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+    expect((evaluated as obj.ErrorObject).message).toBe("identifier not found: missing");
+  });
+
+  it("求值错误节点应该返回错误", () => {
+    const evaluated = testEval("let x = 1; let y = ; x");
+
+    expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+    expect((evaluated as obj.ErrorObject).message).toBe("cannot evaluate code with syntax errors");
+  });
+
+  it("运行时错误应该带有错误码", () => {
+    const tests = [
+      { input: "5 + true", code: "type-mismatch" },
+      { input: "-true", code: "unknown-operator" },
+      { input: "foobar", code: "identifier-not-found" },
+      { input: "1 / 0", code: "division-by-zero" },
+      { input: "5(1)", code: "not-a-function" },
+      { input: '{"a": 1}[fn(x) { x }]', code: "unusable-as-hash-key" },
+      { input: "len(1, 2)", code: "wrong-argument-count" },
+      { input: "first(1)", code: "invalid-argument" },
+      { input: 'int("abc")', code: "conversion-failed" },
+      { input: "2 ** 2000", code: "integer-overflow" },
+      { input: 'int("1e400")', code: "conversion-failed" },
+      { input: 'int("1e20")', code: "conversion-failed" },
+      { input: "int(1e300)", code: "conversion-failed" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).code).toBe(test.code);
+    }
+  });
+
+  it("应该正确求值while循环", () => {
+    const tests = [
+      { input: "let i = 0; while (i < 5) { let i = i + 1; }; i", expected: 5 },
+      { input: "let i = 10; while (i < 5) { let i = i + 1; }; i", expected: 10 },
+      { input: "let f = fn() { let i = 0; while (true) { if (i == 3) { return i; } let i = i + 1; } }; f()", expected: 3 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    expect(testEval("while (false) { 1 }")).toBeInstanceOf(obj.NullObject);
+  });
+
+  it("应该正确求值for-in循环", () => {
+    const tests = [
+      { input: "let f = fn(arr) { for (x in arr) { if (x > 2) { return x; } } return -1; }; f([1, 2, 3, 4])", expected: 3 },
+      { input: "let f = fn(arr) { for (x in arr) { if (x > 9) { return x; } } return -1; }; f([1, 2])", expected: -1 },
+      { input: 'let f = fn(h) { for (k in h) { return h[k]; } }; f({"b": 2, "a": 1})', expected: 2 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    // 每次迭代有自己的环境：闭包捕获的是那一次迭代的值，循环变量不会泄漏到外层
+    const captured = testEval(
+      "let f = fn() { for (x in [1, 2, 3]) { if (x == 2) { return fn() { x }; } } }; f()()"
+    );
+    expect((captured as obj.IntegerObject).value).toBe(2);
+
+    expect(testEval("for (x in []) { x }")).toBeInstanceOf(obj.NullObject);
+
+    const leaked = testEval("for (x in [1]) { x }; x");
+    expect((leaked as obj.ErrorObject).message).toBe("identifier not found: x");
+  });
+
+  it("循环中的错误应该向外传递", () => {
+    const tests = [
+      { input: "while (1 + true) { 1 }", expected: "type mismatch: INTEGER + BOOLEAN" },
+      { input: "while (true) { -true }", expected: "unknown operator: -BOOLEAN" },
+      { input: "for (x in 5) { x }", expected: "cannot iterate over INTEGER" },
+      { input: "for (x in [1, 2]) { x + true }", expected: "type mismatch: INTEGER + BOOLEAN" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.expected);
+    }
+  });
+
+  it("应该正确处理break和continue", () => {
+    const tests = [
+      { input: "let i = 0; while (true) { let i = i + 1; if (i == 4) { break; } }; i", expected: 4 },
+      {
+        input: "let i = 0; let n = 0; while (i < 5) { let i = i + 1; if (i % 2 == 0) { continue; } let n = n + i; }; n",
+        expected: 9,
+      },
+      {
+        input: "let f = fn() { for (x in [1, 2, 3, 4]) { if (x < 3) { continue; } return x; } }; f()",
+        expected: 3,
+      },
+      {
+        // break只结束最内层的循环
+        input: "let n = 0; let i = 0; while (i < 3) { let i = i + 1; while (true) { let n = n + 1; break; } }; n",
+        expected: 3,
+      },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    expect(testEval("for (x in [1, 2]) { break; }")).toBeInstanceOf(obj.NullObject);
+  });
+
+  it("应该正确求值赋值和复合赋值", () => {
+    const tests = [
+      { input: "let x = 1; x = 5; x", expected: 5 },
+      { input: "let x = 1; x = 5", expected: 5 },
+      { input: "let x = 1; let y = 2; x = y = 7; x + y", expected: 14 },
+      { input: "let x = 10; x += 5; x -= 3; x *= 2; x /= 4; x", expected: 6 },
+      { input: "let i = 0; while (i < 5) { i += 1 }; i", expected: 5 },
+      {
+        // 闭包修改外层作用域中的变量
+        input: "let counter = fn() { let n = 0; fn() { n += 1 } }; let c = counter(); c(); c(); c()",
+        expected: 3,
+      },
+      {
+        // 只更新最近一层作用域中的绑定
+        input: "let x = 1; let f = fn() { let x = 2; x = 3; x }; f() + x",
+        expected: 4,
+      },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    const str = testEval('let s = "a"; s += "b"; s');
+    expect((str as obj.StringObject).value).toBe("ab");
+  });
+
+  it("给未定义的变量赋值应该返回错误", () => {
+    const tests = [
+      { input: "x = 1", message: "assignment to undeclared variable: x", code: "undeclared-variable" },
+      { input: "len += 1", message: "assignment to undeclared variable: len", code: "undeclared-variable" },
+      { input: 'let x = 1; x += "a"', message: "type mismatch: INTEGER + STRING", code: "type-mismatch" },
+      { input: "let x = 1; x /= 0", message: "division by zero", code: "division-by-zero" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.message);
+      expect((evaluated as obj.ErrorObject).code).toBe(test.code);
+    }
+  });
+
+  it("应该支持给数组元素和哈希表键赋值", () => {
+    const tests = [
+      { input: "let a = [1, 2, 3]; a[1] = 5; a", expected: "[1, 5, 3]" },
+      { input: "let a = [1, 2, 3]; a[0] += 10; a[2] *= a[0]; a", expected: "[11, 2, 33]" },
+      { input: 'let h = {"a": 1}; h["a"] = 2; h["b"] = 3; h', expected: "{a: 2, b: 3}" },
+      {
+        // 在循环中构建查找表
+        input: 'let t = {}; for (w in ["x", "y", "x"]) { if (t[w]) { t[w] += 1 } else { t[w] = 1 } }; t',
+        expected: "{x: 2, y: 1}",
+      },
+      // 就地修改：引用同一个数组的变量都能看到修改
+      { input: "let a = [1]; let b = a; b[0] = 9; a", expected: "[9]" },
+      { input: "let m = [[0, 0], [0, 0]]; m[1][0] = 7; m", expected: "[[0, 0], [7, 0]]" },
+    ];
+
+    for (const test of tests) {
+      expect(testEval(test.input)?.inspect()).toBe(test.expected);
+    }
+
+    expect(testEval("let a = [1, 2]; a[1] = 8")?.inspect()).toBe("8");
+  });
+
+  it("非法的索引赋值应该返回错误", () => {
+    const tests = [
+      { input: "let a = [1, 2]; a[2] = 0", message: "index out of bounds: 2 (length 2)", code: "index-out-of-bounds" },
+      { input: "let a = [1, 2]; a[-1] = 0", message: "index out of bounds: -1 (length 2)", code: "index-out-of-bounds" },
+      { input: "let h = {}; h[fn(x) { x }] = 1", message: "unusable as hash key: FUNCTION", code: "unusable-as-hash-key" },
+      { input: 'let s = "abc"; s[0] = "x"', message: "index assignment not supported: STRING", code: "index-not-supported" },
+      { input: "let h = {}; h[1] += 1", message: "type mismatch: NULL + INTEGER", code: "type-mismatch" },
+      { input: "a[0] = 1", message: "identifier not found: a", code: "identifier-not-found" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.message);
+      expect((evaluated as obj.ErrorObject).code).toBe(test.code);
+    }
+  });
+
+  it("应该正确求值match表达式", () => {
+    const describe = `let describe = fn(x) {
+      match (x) {
+        0 => "zero",
+        -1 => "minus one",
+        "hi" => "greeting",
+        true => "yes",
+        [] => "empty",
+        [a] => "one: " + str(a),
+        [a, b] if a == b => "pair of " + str(a),
+        [head, ...tail] => "head " + str(head) + ", " + str(len(tail)) + " more",
+        {"type": "circle", "r": r} => "circle " + str(r),
+        {"type": "rect", "size": [w, h]} => "rect " + str(w * h),
+        n if n == 101 => "big",
+        _ => "other",
+      }
+    };`;
+    const tests = [
+      { input: "describe(0)", expected: "zero" },
+      { input: "describe(0.0)", expected: "zero" },
+      { input: "describe(-1)", expected: "minus one" },
+      { input: 'describe("hi")', expected: "greeting" },
+      { input: "describe(true)", expected: "yes" },
+      { input: "describe([])", expected: "empty" },
+      { input: "describe([7])", expected: "one: 7" },
+      { input: "describe([2, 2])", expected: "pair of 2" },
+      { input: "describe([1, 2])", expected: "head 1, 1 more" },
+      { input: "describe([1, 2, 3])", expected: "head 1, 2 more" },
+      { input: 'describe({"type": "circle", "r": 3, "color": "red"})', expected: "circle 3" },
+      { input: 'describe({"type": "rect", "size": [2, 5]})', expected: "rect 10" },
+      { input: 'describe({"type": "rect", "size": [2]})', expected: "other" },
+      { input: "describe(101)", expected: "big" },
+      { input: "describe(false)", expected: "other" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(describe + test.input);
+      expect((evaluated as obj.StringObject).value).toBe(test.expected);
+    }
+  });
+
+  it("match的绑定只在分支内可见", () => {
+    const tests = [
+      { input: "let x = 1; match ([5]) { [x] if x > 10 => x, [y] => x + y }", expected: 6 },
+      { input: "let t = 0; match ([1, 2]) { [a, ..._] => t = a }; t", expected: 1 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    const leaked = testEval("match (1) { n => n }; n");
+    expect((leaked as obj.ErrorObject).message).toBe("identifier not found: n");
+  });
+
+  it("没有分支匹配时应该返回错误", () => {
+    const tests = [
+      { input: "match (3) { 1 => 1, 2 => 2 }", message: "no match arm for value: 3", code: "no-match" },
+      { input: "match ([1]) { [] => 1 }", message: "no match arm for value: [1]", code: "no-match" },
+      { input: "match (1) { n if n + true => 1 }", message: "type mismatch: INTEGER + BOOLEAN", code: "type-mismatch" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.message);
+      expect((evaluated as obj.ErrorObject).code).toBe(test.code);
+    }
+  });
+
+  it("let语句和函数参数应该支持解构", () => {
+    const tests = [
+      { input: "let [a, b] = [1, 2]; a * 10 + b", expected: 12 },
+      { input: "let [a, b, ...rest] = [1, 2, 3, 4]; a + b + len(rest) * 100", expected: 203 },
+      { input: "let [head, ...tail] = [1]; len(tail)", expected: 0 },
+      { input: 'let {"name": n, "age": a} = {"name": "m", "age": 5, "x": 0}; a', expected: 5 },
+      { input: 'let [x, {"k": [y, _]}] = [1, {"k": [2, 3]}]; x + y', expected: 3 },
+      { input: "let add = fn([a, b]) { a + b }; add([3, 4])", expected: 7 },
+      { input: 'let age = fn({"age": a}, bonus) { a + bonus }; age({"age": 30}, 1)', expected: 31 },
+      {
+        input: "let sum = fn(arr) { match (arr) { [] => 0, [h, ...t] => h + sum(t) } }; sum([1, 2, 3])",
+        expected: 6,
+      },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+  });
+
+  it("解构的结构不符时应该返回错误", () => {
+    const tests = [
+      { input: "let [a, b] = 5", message: "cannot destructure INTEGER with array pattern [a, b]" },
+      { input: "let [a, b] = [1, 2, 3]", message: "array pattern [a, b] expects 2 elements, got 3" },
+      { input: "let [a, b, ...c] = [1]", message: "array pattern [a, b, ...c] expects at least 2 elements, got 1" },
+      { input: 'let {"name": n} = [1]', message: 'cannot destructure ARRAY with hash pattern {"name": n}' },
+      { input: 'let {"name": n} = {"age": 1}', message: 'missing key "name" for hash pattern {"name": n}' },
+      { input: "let [1, x] = [2, 3]", message: "value 2 does not match pattern 1" },
+      { input: "let f = fn([a]) { a }; f(1)", message: "cannot destructure INTEGER with array pattern [a]" },
+      { input: "let f = fn(x, [a]) { a }; f(1)", message: "cannot destructure NULL with array pattern [a]" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).message).toBe(test.message);
+      expect((evaluated as obj.ErrorObject).code).toBe("destructuring-mismatch");
+    }
+  });
+
+  it("应该通过注册的求值函数求值自定义节点", () => {
+    class PipeExpression implements ast.Expression {
+      readonly kind = "PipeExpression";
+      token: token.Token;
+      span?: token.Span;
+      left: ast.Expression;
+      right: ast.Expression;
+
+      constructor(token: token.Token, left: ast.Expression, right: ast.Expression) {
+        this.token = token;
+        this.left = left;
+        this.right = right;
+      }
+
+      expressionNode(): void {}
+
+      tokenLiteral(): string {
+        return this.token.Literal;
+      }
+
+      toString(): string {
+        return `(${this.left} |> ${this.right})`;
+      }
+    }
+
+    unregisters.push(
+      token.registerOperator("|>", "PIPE"),
+      registerPrecedence("PIPE", Precedence.ASSIGN + 0.5),
+      registerParserExtension((parser) => {
+        parser.registerInfix("PIPE", (left) => {
+          const tok = parser.getCurToken();
+          parser.nextToken();
+          const right = parser.parseExpression(Precedence.ASSIGN + 0.5);
+          return right && parser.finishNode(new PipeExpression(tok, left, right), left.span?.start);
+        });
+      }),
+      // x |> f 等价于 f(x)
+      registerNodeEvaluator(PipeExpression, (node, env) => {
+        const call = new ast.CallExpression(node.token, node.right);
+        call.args = [node.left];
+        call.span = node.span;
+        return evalNode(call, env);
+      })
+    );
+
+    const tests = [
+      { input: "[1, 2, 3] |> len", expected: 3 },
+      { input: "let double = fn(x) { x * 2 }; 5 |> double |> fn(x) { x + 1 }", expected: 11 },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.IntegerObject);
+      expect((evaluated as obj.IntegerObject).value).toBe(test.expected);
+    }
+
+    const evaluated = testEval("1 |> 2") as obj.ErrorObject;
+    expect(evaluated.message).toBe("not a function: INTEGER");
+    expect(evaluated.span?.start).toEqual({ line: 1, column: 1, offset: 0 });
+  });
+});
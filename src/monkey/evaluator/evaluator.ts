@@ -11,7 +11,9 @@
  */
 
 import * as ast from '../ast/ast'
+import { transform } from '../ast/visitor'
 import * as obj from '../object/object'
+import * as token from '../token/token'
 import { Environment, newEnclosedEnvironment } from '../object/environment'
 import { builtins } from './builtins'
 
@@ -20,13 +22,71 @@ import { builtins } from './builtins'
  * 为了性能和内存效率，某些对象在整个程序中只创建一次
  */
 const NULL = new obj.NullObject()
+const BREAK = new obj.BreakSignal()
+const CONTINUE = new obj.ContinueSignal()
 const TRUE = new obj.BooleanObject(true)
 const FALSE = new obj.BooleanObject(false)
 
+/**
+ * 自定义节点的求值函数类型
+ * 与evalNode的签名相同，子节点可以直接调用evalNode求值
+ */
+export type NodeEvaluator<T extends ast.Node> = (
+  node: T,
+  env: Environment
+) => obj.MonkeyObject | null
+
+/**
+ * 构造T类型节点的类
+ */
+type NodeClass<T extends ast.Node> = new (...args: never[]) => T
+
+/**
+ * 已注册的自定义节点求值函数，以节点类为键
+ * 求值函数只会收到对应类的节点，因此保存为参数类型为never的函数
+ */
+const nodeEvaluators = new Map<NodeClass<ast.Node>, NodeEvaluator<never>>()
+
+/**
+ * 注册自定义节点的求值函数
+ *
+ * 配合Parser扩展使用：扩展解析出的自定义节点类，在这里注册对应的求值逻辑
+ * 按节点的构造函数精确匹配，内置节点类型总是优先使用内置的求值逻辑
+ *
+ * @returns 取消注册的函数，调用后恢复注册之前的求值函数
+ *
+ * @example
+ * ```typescript
+ * registerNodeEvaluator(PipeExpression, (node, env) => {
+ *   const left = evalNode(node.left, env)
+ *   ...
+ * })
+ * ```
+ */
+export function registerNodeEvaluator<T extends ast.Node>(
+  nodeClass: NodeClass<T>,
+  evaluator: NodeEvaluator<T>
+): () => void {
+  const previous = nodeEvaluators.get(nodeClass)
+  nodeEvaluators.set(nodeClass, evaluator)
+
+  return () => {
+    if (nodeEvaluators.get(nodeClass) !== evaluator) {
+      return
+    }
+    if (previous) {
+      nodeEvaluators.set(nodeClass, previous)
+    } else {
+      nodeEvaluators.delete(nodeClass)
+    }
+  }
+}
+
 /**
  * eval函数
  *
  * 求值器的入口函数，对AST节点进行求值
+ * 如果求值产生了错误，错误对象会记录第一次产生它的节点位置
  *
  * @param node - 要求值的AST节点
  * @param env - 当前的环境（变量作用域）
@@ -40,140 +100,228 @@ export function evalNode(
     return null
   }
 
-  // ==================== 语句节点 ====================
-
-  // 程序节点：依次求值所有语句
-  if (node instanceof ast.Program) {
-    return evalProgram(node, env)
+  const result = evalNodeWithoutSpan(node, env)
+  if (result instanceof obj.ErrorObject && result.span === undefined) {
+    result.span = node.span
   }
+  return result
+}
 
-  // 表达式语句：求值表达式
-  if (node instanceof ast.ExpressionStatement) {
-    return evalNode(node.expression, env)
-  }
+/**
+ * 按节点类型分派求值逻辑
+ *
+ * 内置节点按kind分派，模式和match分支不会单独求值，
+ * 其余的节点（自定义节点）交给registerNodeEvaluator注册的求值函数
+ */
+function evalNodeWithoutSpan(
+  node: ast.Node,
+  env: Environment
+): obj.MonkeyObject | null {
+  const n = node as ast.AnyNode
 
-  // 代码块语句：依次求值块中的所有语句
-  if (node instanceof ast.BlockStatement) {
-    return evalBlockStatement(node, env)
-  }
+  switch (n.kind) {
+    // ==================== 语句节点 ====================
 
-  // return语句：求值返回值并包装为ReturnValue对象
-  if (node instanceof ast.ReturnStatement) {
-    const val = evalNode(node.returnValue, env)
-    if (isError(val)) {
-      return val
+    // 程序节点：依次求值所有语句
+    case 'Program':
+      return evalProgram(n, env)
+
+    // 表达式语句：求值表达式
+    case 'ExpressionStatement':
+      return evalNode(n.expression, env)
+
+    // 代码块语句：依次求值块中的所有语句
+    case 'BlockStatement':
+      return evalBlockStatement(n, env)
+
+    // return语句：求值返回值并包装为ReturnValue对象
+    case 'ReturnStatement': {
+      const val = evalNode(n.returnValue, env)
+      if (isError(val)) {
+        return val
+      }
+      return new obj.ReturnValue(val!)
     }
-    return new obj.ReturnValue(val!)
-  }
 
-  // let语句：求值右侧表达式并绑定到标识符
-  if (node instanceof ast.LetStatement) {
-    const val = evalNode(node.value, env)
-    if (isError(val)) {
+    // let语句：求值右侧表达式并绑定到标识符或解构模式
+    case 'LetStatement': {
+      const val = evalNode(n.value, env)
+      if (isError(val)) {
+        return val
+      }
+      const error = bindPattern(n.name, val!, env)
+      if (error) {
+        return error
+      }
       return val
     }
-    env.set(node.name.value, val!)
-    return val
-  }
 
-  // ==================== 表达式节点 ====================
+    // break和continue语句：产生控制流信号，由最近的循环处理
+    case 'BreakStatement':
+      return BREAK
+    case 'ContinueStatement':
+      return CONTINUE
 
-  // 整数字面量：直接返回整数对象
-  if (node instanceof ast.IntegerLiteral) {
-    return new obj.IntegerObject(node.value)
-  }
+    // while语句：条件为真时重复执行循环体
+    case 'WhileStatement':
+      return evalWhileStatement(n, env)
 
-  // 字符串字面量：直接返回字符串对象
-  if (node instanceof ast.StringLiteral) {
-    return new obj.StringObject(node.value)
-  }
+    // for-in语句：遍历数组元素或哈希表的键
+    case 'ForInStatement':
+      return evalForInStatement(n, env)
 
-  // 布尔值：返回全局单例
-  if (node instanceof ast.BooleanLiteral) {
-    return nativeBoolToBooleanObject(node.value)
-  }
+    // ==================== 表达式节点 ====================
 
-  // 前缀表达式：求值右侧，然后应用运算符
-  if (node instanceof ast.PrefixExpression) {
-    const right = evalNode(node.right, env)
-    if (isError(right)) {
-      return right
-    }
-    return evalPrefixExpression(node.operator, right!)
-  }
+    // 整数字面量：直接返回整数对象
+    case 'IntegerLiteral':
+      return new obj.IntegerObject(n.value)
+
+    // 浮点数字面量：直接返回浮点数对象
+    case 'FloatLiteral':
+      return new obj.FloatObject(n.value)
+
+    // 字符串字面量：直接返回字符串对象
+    case 'StringLiteral':
+      return new obj.StringObject(n.value)
+
+    // 插值字符串：依次求值嵌入的表达式并拼接
+    case 'InterpolatedString':
+      return evalInterpolatedString(n, env)
+
+    // 布尔值：返回全局单例
+    case 'BooleanLiteral':
+      return nativeBoolToBooleanObject(n.value)
 
-  // 中缀表达式：求值左右两侧，然后应用运算符
-  if (node instanceof ast.InfixExpression) {
-    const left = evalNode(node.left, env)
-    if (isError(left)) {
-      return left
+    // 赋值表达式：更新最近一层作用域中已有的绑定
+    case 'AssignExpression':
+      return evalAssignExpression(n, env)
+
+    // 前缀表达式：求值右侧，然后应用运算符
+    case 'PrefixExpression': {
+      const right = evalNode(n.right, env)
+      if (isError(right)) {
+        return right
+      }
+      return evalPrefixExpression(n.operator, right!)
     }
 
-    const right = evalNode(node.right, env)
-    if (isError(right)) {
-      return right
+    // 中缀表达式：求值左右两侧，然后应用运算符
+    // && 和 || 需要短路求值，单独处理
+    case 'InfixExpression': {
+      if (n.operator === '&&' || n.operator === '||') {
+        return evalLogicalExpression(n, env)
+      }
+
+      const left = evalNode(n.left, env)
+      if (isError(left)) {
+        return left
+      }
+
+      const right = evalNode(n.right, env)
+      if (isError(right)) {
+        return right
+      }
+
+      return evalInfixExpression(n.operator, left!, right!)
     }
 
-    return evalInfixExpression(node.operator, left!, right!)
-  }
+    // if表达式：根据条件选择分支
+    case 'IfExpression':
+      return evalIfExpression(n, env)
 
-  // if表达式：根据条件选择分支
-  if (node instanceof ast.IfExpression) {
-    return evalIfExpression(node, env)
-  }
+    // match表达式：按顺序尝试每个分支
+    case 'MatchExpression':
+      return evalMatchExpression(n, env)
 
-  // 标识符：从环境中查找变量
-  if (node instanceof ast.Identifier) {
-    return evalIdentifier(node, env)
-  }
+    // 标识符：从环境中查找变量
+    case 'Identifier':
+      return evalIdentifier(n, env)
 
-  // 函数字面量：创建函数对象
-  if (node instanceof ast.FunctionLiteral) {
-    return new obj.FunctionObject(node.parameters, node.body, env)
-  }
+    // 函数字面量：创建函数对象
+    case 'FunctionLiteral':
+      return new obj.FunctionObject(n.parameters, n.body, env)
 
-  // 函数调用：求值函数和参数，然后执行
-  if (node instanceof ast.CallExpression) {
-    const func = evalNode(node.func, env)
-    if (isError(func)) {
-      return func
-    }
+    // 宏字面量：只能出现在顶层的let语句中，由defineMacros在求值前取出
+    case 'MacroLiteral':
+      return newError(
+        'macros can only be defined by top-level let statements',
+        'misplaced-macro'
+      )
 
-    const args = evalExpressions(node.args, env)
-    if (args.length === 1 && isError(args[0])) {
-      return args[0]
-    }
+    // 函数调用：求值函数和参数，然后执行
+    case 'CallExpression': {
+      // quote不求值参数，而是返回参数的AST
+      if (n.func instanceof ast.Identifier && n.func.value === 'quote') {
+        return evalQuote(n, env)
+      }
 
-    return applyFunction(func!, args)
-  }
+      const func = evalNode(n.func, env)
+      if (isError(func)) {
+        return func
+      }
 
-  // 数组字面量：求值所有元素
-  if (node instanceof ast.ArrayLiteral) {
-    const elements = evalExpressions(node.elements, env)
-    if (elements.length === 1 && isError(elements[0])) {
-      return elements[0]
+      const args = evalExpressions(n.args, env)
+      if (args.length === 1 && isError(args[0])) {
+        return args[0]
+      }
+
+      return applyFunction(func!, args)
     }
-    return new obj.ArrayObject(elements)
-  }
 
-  // 索引表达式：求值左侧和索引，然后访问
-  if (node instanceof ast.IndexExpression) {
-    const left = evalNode(node.left, env)
-    if (isError(left)) {
-      return left
+    // 数组字面量：求值所有元素
+    case 'ArrayLiteral': {
+      const elements = evalExpressions(n.elements, env)
+      if (elements.length === 1 && isError(elements[0])) {
+        return elements[0]
+      }
+      return new obj.ArrayObject(elements)
     }
 
-    const index = evalNode(node.index, env)
-    if (isError(index)) {
-      return index
+    // 索引表达式：求值左侧和索引，然后访问
+    case 'IndexExpression': {
+      const left = evalNode(n.left, env)
+      if (isError(left)) {
+        return left
+      }
+
+      const index = evalNode(n.index, env)
+      if (isError(index)) {
+        return index
+      }
+
+      return evalIndexExpression(left!, index!)
     }
 
-    return evalIndexExpression(left!, index!)
+    // 哈希字面量：求值所有键值对
+    case 'HashLiteral':
+      return evalHashLiteral(n, env)
+
+    // 语法错误占位节点：Parser已经报告过错误，这里无法求值
+    case 'ErrorStatement':
+    case 'ErrorExpression':
+      return newError('cannot evaluate code with syntax errors', 'syntax-error')
+
+    // 模式和match分支由evalMatchExpression和bindPattern处理，不能单独求值
+    case 'WildcardPattern':
+    case 'IdentifierPattern':
+    case 'LiteralPattern':
+    case 'ArrayPattern':
+    case 'HashPattern':
+    case 'MatchArm':
+      return null
+
+    default:
+      // 内置节点都已经处理过，新增节点类之后这里会产生类型错误
+      n satisfies never
   }
 
-  // 哈希字面量：求值所有键值对
-  if (node instanceof ast.HashLiteral) {
-    return evalHashLiteral(node, env)
+  // 自定义节点：交给registerNodeEvaluator注册的求值函数
+  // 按构造函数取出的求值函数一定接受该节点
+  const evaluator = nodeEvaluators.get(
+    node.constructor as NodeClass<ast.Node>
+  ) as NodeEvaluator<ast.Node> | undefined
+  if (evaluator) {
+    return evaluator(node, env)
   }
 
   return null
@@ -213,6 +361,7 @@ function evalProgram(
  * 依次执行块中的所有语句
  * 与evalProgram不同的是，遇到return时不解包，直接返回ReturnValue对象
  * 这样可以让return在函数中正确工作
+ * break和continue信号同样立即返回，交给外层的循环处理
  */
 function evalBlockStatement(
   block: ast.BlockStatement,
@@ -223,10 +372,15 @@ function evalBlockStatement(
   for (const statement of block.statements) {
     result = evalNode(statement, env)
 
-    // 遇到return或error，立即返回（不解包）
+    // 遇到return、error、break或continue，立即返回（不解包）
     if (result !== null) {
       const rt = result.type()
-      if (rt === obj.RETURN_VALUE_OBJ || rt === obj.ERROR_OBJ) {
+      if (
+        rt === obj.RETURN_VALUE_OBJ ||
+        rt === obj.ERROR_OBJ ||
+        rt === obj.BREAK_SIGNAL_OBJ ||
+        rt === obj.CONTINUE_SIGNAL_OBJ
+      ) {
         return result
       }
     }
@@ -235,6 +389,92 @@ function evalBlockStatement(
   return result
 }
 
+/**
+ * 求值while语句
+ *
+ * 循环体与while语句共用同一个环境（和if的代码块一样）
+ * 循环体中遇到return或error时立即返回（不解包）
+ * 遇到break时结束循环，遇到continue时进入下一次迭代，循环结束时返回null
+ */
+function evalWhileStatement(
+  node: ast.WhileStatement,
+  env: Environment
+): obj.MonkeyObject {
+  while (true) {
+    const condition = evalNode(node.condition, env)
+    if (isError(condition)) {
+      return condition!
+    }
+    if (!isTruthy(condition!)) {
+      return NULL
+    }
+
+    const result = evalBlockStatement(node.body, env)
+    if (result === BREAK) {
+      return NULL
+    }
+    if (isReturnOrError(result)) {
+      return result!
+    }
+  }
+}
+
+/**
+ * 求值for-in语句
+ *
+ * - 数组：依次遍历每个元素
+ * - 哈希表：按插入顺序遍历每个键
+ * 每次迭代都创建一个新的enclosed环境来绑定循环变量，
+ * 这样循环体中创建的闭包捕获的是各自那一次迭代的值
+ * 循环体中遇到return或error时立即返回（不解包）
+ * 遇到break时结束循环，遇到continue时进入下一次迭代，循环结束时返回null
+ */
+function evalForInStatement(
+  node: ast.ForInStatement,
+  env: Environment
+): obj.MonkeyObject {
+  const iterable = evalNode(node.iterable, env)
+  if (isError(iterable)) {
+    return iterable!
+  }
+
+  // 先取出快照，循环体中修改数组或哈希表不影响本次遍历
+  let items: obj.MonkeyObject[]
+  if (iterable instanceof obj.ArrayObject) {
+    items = [...iterable.elements]
+  } else if (iterable instanceof obj.HashObject) {
+    items = Array.from(iterable.pairs.values(), (pair) => pair.key)
+  } else {
+    return newError(`cannot iterate over ${iterable!.type()}`, 'not-iterable')
+  }
+
+  for (const item of items) {
+    const loopEnv = newEnclosedEnvironment(env)
+    loopEnv.set(node.variable.value, item)
+
+    const result = evalBlockStatement(node.body, loopEnv)
+    if (result === BREAK) {
+      break
+    }
+    if (isReturnOrError(result)) {
+      return result!
+    }
+  }
+
+  return NULL
+}
+
+/**
+ * 判断求值结果是否是ReturnValue或ErrorObject，即是否需要立即向外传递
+ */
+function isReturnOrError(result: obj.MonkeyObject | null): boolean {
+  if (result === null) {
+    return false
+  }
+  const rt = result.type()
+  return rt === obj.RETURN_VALUE_OBJ || rt === obj.ERROR_OBJ
+}
+
 /**
  * 将JavaScript布尔值转换为Monkey布尔对象
  * 使用全局单例以提高性能
@@ -246,7 +486,7 @@ function nativeBoolToBooleanObject(input: boolean): obj.BooleanObject {
 /**
  * 求值前缀表达式
  *
- * @param operator - 运算符（! 或 -）
+ * @param operator - 运算符（!、- 或 ~）
  * @param right - 右侧操作数
  */
 function evalPrefixExpression(
@@ -258,15 +498,20 @@ function evalPrefixExpression(
       return evalBangOperatorExpression(right)
     case '-':
       return evalMinusPrefixOperatorExpression(right)
+    case '~':
+      return evalTildePrefixOperatorExpression(right)
     default:
-      return newError(`unknown operator: ${operator}${right.type()}`)
+      return newError(
+        `unknown operator: ${operator}${right.type()}`,
+        'unknown-operator'
+      )
   }
 }
 
 /**
  * 求值中缀表达式
  *
- * @param operator - 运算符（+, -, *, /, <, >, ==, !=）
+ * @param operator - 运算符（+, -, *, /, %, **, &, |, ^, <<, >>, <, >, <=, >=, ==, !=）
  * @param left - 左侧操作数
  * @param right - 右侧操作数
  */
@@ -280,6 +525,11 @@ function evalInfixExpression(
     return evalIntegerInfixExpression(operator, left, right)
   }
 
+  // 数字混合运算：只要有一个操作数是浮点数，就按浮点数计算
+  if (isNumber(left) && isNumber(right)) {
+    return evalFloatInfixExpression(operator, left, right)
+  }
+
   // 两个操作数都是字符串
   if (left.type() === obj.STRING_OBJ && right.type() === obj.STRING_OBJ) {
     return evalStringInfixExpression(operator, left, right)
@@ -295,14 +545,51 @@ function evalInfixExpression(
 
   // 类型不匹配
   if (left.type() !== right.type()) {
-    return newError(`type mismatch: ${left.type()} ${operator} ${right.type()}`)
+    return newError(
+      `type mismatch: ${left.type()} ${operator} ${right.type()}`,
+      'type-mismatch'
+    )
   }
 
   return newError(
-    `unknown operator: ${left.type()} ${operator} ${right.type()}`
+    `unknown operator: ${left.type()} ${operator} ${right.type()}`,
+    'unknown-operator'
   )
 }
 
+/**
+ * 求值逻辑与(&&)、逻辑或(||)表达式
+ *
+ * 采用短路求值：
+ * - a && b：a为假时直接返回false，不求值b
+ * - a || b：a为真时直接返回true，不求值b
+ * 操作数的真假按isTruthy判断，结果总是布尔值
+ */
+function evalLogicalExpression(
+  node: ast.InfixExpression,
+  env: Environment
+): obj.MonkeyObject {
+  const left = evalNode(node.left, env)
+  if (isError(left)) {
+    return left!
+  }
+
+  const leftTruthy = isTruthy(left!)
+  if (node.operator === '&&' && !leftTruthy) {
+    return FALSE
+  }
+  if (node.operator === '||' && leftTruthy) {
+    return TRUE
+  }
+
+  const right = evalNode(node.right, env)
+  if (isError(right)) {
+    return right!
+  }
+
+  return nativeBoolToBooleanObject(isTruthy(right!))
+}
+
 /**
  * 求值逻辑非运算符
  *
@@ -329,16 +616,40 @@ function evalBangOperatorExpression(right: obj.MonkeyObject): obj.MonkeyObject {
 function evalMinusPrefixOperatorExpression(
   right: obj.MonkeyObject
 ): obj.MonkeyObject {
+  if (right.type() === obj.FLOAT_OBJ) {
+    return new obj.FloatObject(-(right as obj.FloatObject).value)
+  }
+
   if (right.type() !== obj.INTEGER_OBJ) {
-    return newError(`unknown operator: -${right.type()}`)
+    return newError(`unknown operator: -${right.type()}`, 'unknown-operator')
   }
 
   const value = (right as obj.IntegerObject).value
   return new obj.IntegerObject(-value)
 }
 
+/**
+ * 求值按位取反运算符
+ * 只支持整数，~x 等于 -x - 1
+ */
+function evalTildePrefixOperatorExpression(
+  right: obj.MonkeyObject
+): obj.MonkeyObject {
+  if (right.type() !== obj.INTEGER_OBJ) {
+    return newError(`unknown operator: ~${right.type()}`, 'unknown-operator')
+  }
+
+  const value = (right as obj.IntegerObject).value
+  return evalIntegerBitwise('~', value, 0)
+}
+
 /**
  * 求值整数中缀表达式
+ *
+ * - / 和 % 都向下取整（% 的结果与除数同号），除数为0时返回错误
+ * - ** 的指数为负数时结果是浮点数，例如 2 ** -1 等于 0.5
+ * - ** 的结果超出安全整数范围时返回integer-overflow错误
+ * - 位运算按64位有符号整数进行，操作数或结果超出安全整数范围时返回integer-overflow错误
  */
 function evalIntegerInfixExpression(
   operator: string,
@@ -356,22 +667,185 @@ function evalIntegerInfixExpression(
     case '*':
       return new obj.IntegerObject(leftVal * rightVal)
     case '/':
+      if (rightVal === 0) {
+        return newError('division by zero', 'division-by-zero')
+      }
       return new obj.IntegerObject(Math.floor(leftVal / rightVal))
+    case '%':
+      if (rightVal === 0) {
+        return newError('division by zero', 'division-by-zero')
+      }
+      return new obj.IntegerObject(flooredModulo(leftVal, rightVal))
+    case '**':
+      if (rightVal < 0) {
+        return new obj.FloatObject(leftVal ** rightVal)
+      }
+      return (
+        checkIntegerOverflow(leftVal ** rightVal) ??
+        new obj.IntegerObject(leftVal ** rightVal)
+      )
+    case '&':
+    case '|':
+    case '^':
+      return evalIntegerBitwise(operator, leftVal, rightVal)
+    case '<<':
+    case '>>':
+      if (rightVal < 0 && Number.isSafeInteger(rightVal)) {
+        return newError(
+          `negative shift count: ${rightVal}`,
+          'negative-shift-count'
+        )
+      }
+      return evalIntegerBitwise(operator, leftVal, rightVal)
+    case '<':
+      return nativeBoolToBooleanObject(leftVal < rightVal)
+    case '>':
+      return nativeBoolToBooleanObject(leftVal > rightVal)
+    case '<=':
+      return nativeBoolToBooleanObject(leftVal <= rightVal)
+    case '>=':
+      return nativeBoolToBooleanObject(leftVal >= rightVal)
+    case '==':
+      return nativeBoolToBooleanObject(leftVal === rightVal)
+    case '!=':
+      return nativeBoolToBooleanObject(leftVal !== rightVal)
+    default:
+      return newError(
+        `unknown operator: ${left.type()} ${operator} ${right.type()}`,
+        'unknown-operator'
+      )
+  }
+}
+
+/**
+ * 求值浮点数中缀表达式
+ *
+ * 操作数可以是整数或浮点数，整数会被当作浮点数参与运算
+ * 算术运算的结果总是浮点数，除以0遵循IEEE 754（得到Infinity或NaN）
+ */
+function evalFloatInfixExpression(
+  operator: string,
+  left: obj.MonkeyObject,
+  right: obj.MonkeyObject
+): obj.MonkeyObject {
+  const leftVal = (left as obj.IntegerObject | obj.FloatObject).value
+  const rightVal = (right as obj.IntegerObject | obj.FloatObject).value
+
+  switch (operator) {
+    case '+':
+      return new obj.FloatObject(leftVal + rightVal)
+    case '-':
+      return new obj.FloatObject(leftVal - rightVal)
+    case '*':
+      return new obj.FloatObject(leftVal * rightVal)
+    case '/':
+      return new obj.FloatObject(leftVal / rightVal)
+    case '%':
+      return new obj.FloatObject(flooredModulo(leftVal, rightVal))
+    case '**':
+      return new obj.FloatObject(leftVal ** rightVal)
     case '<':
       return nativeBoolToBooleanObject(leftVal < rightVal)
     case '>':
       return nativeBoolToBooleanObject(leftVal > rightVal)
+    case '<=':
+      return nativeBoolToBooleanObject(leftVal <= rightVal)
+    case '>=':
+      return nativeBoolToBooleanObject(leftVal >= rightVal)
     case '==':
       return nativeBoolToBooleanObject(leftVal === rightVal)
     case '!=':
       return nativeBoolToBooleanObject(leftVal !== rightVal)
     default:
       return newError(
-        `unknown operator: ${left.type()} ${operator} ${right.type()}`
+        `unknown operator: ${left.type()} ${operator} ${right.type()}`,
+        'unknown-operator'
       )
   }
 }
 
+/**
+ * 向下取整的取模运算，结果与除数同号
+ * 例如 -7 % 3 等于 2，7 % -3 等于 -2
+ */
+function flooredModulo(left: number, right: number): number {
+  const remainder = left % right
+  return remainder !== 0 && (remainder < 0) !== (right < 0)
+    ? remainder + right
+    : remainder
+}
+
+/**
+ * 检查整数是否都在安全整数范围内
+ *
+ * 整数运算溢出后会得到不精确的值甚至Infinity，无法再转换为BigInt
+ *
+ * @returns 有超出范围的整数时返回integer-overflow错误，否则返回null
+ */
+function checkIntegerOverflow(...values: number[]): obj.ErrorObject | null {
+  if (values.every((value) => Number.isSafeInteger(value))) {
+    return null
+  }
+  return newError('integer overflow', 'integer-overflow')
+}
+
+/**
+ * 求值整数的位运算，操作数和结果都必须在安全整数范围内
+ *
+ * 64位的结果可能超出安全整数范围（例如 1 << 62），转换回number时会丢失精度，
+ * 这时和 ** 一样返回integer-overflow错误
+ */
+function evalIntegerBitwise(
+  operator: string,
+  left: number,
+  right: number
+): obj.MonkeyObject {
+  const overflow = checkIntegerOverflow(left, right)
+  if (overflow) {
+    return overflow
+  }
+
+  const result = evalBitwise(operator, left, right)
+  return checkIntegerOverflow(result) ?? new obj.IntegerObject(result)
+}
+
+/**
+ * 按64位有符号整数执行位运算
+ *
+ * 调用方需要保证操作数都是安全整数
+ *
+ * JavaScript的位运算符只有32位，这里借助BigInt完成运算后再截断回64位
+ * 移位位数超过64时按64处理，避免构造出巨大的BigInt
+ */
+function evalBitwise(operator: string, left: number, right: number): number {
+  const a = BigInt.asIntN(64, BigInt(left))
+  const b = BigInt.asIntN(64, BigInt(right))
+  const shift = BigInt(Math.min(right, 64))
+  let result: bigint
+
+  switch (operator) {
+    case '&':
+      result = a & b
+      break
+    case '|':
+      result = a | b
+      break
+    case '^':
+      result = a ^ b
+      break
+    case '<<':
+      result = a << shift
+      break
+    case '>>':
+      result = a >> shift
+      break
+    default:
+      result = ~a
+  }
+
+  return Number(BigInt.asIntN(64, result))
+}
+
 /**
  * 求值字符串中缀表达式
  * 只支持 + 运算符（字符串连接）
@@ -383,7 +857,8 @@ function evalStringInfixExpression(
 ): obj.MonkeyObject {
   if (operator !== '+') {
     return newError(
-      `unknown operator: ${left.type()} ${operator} ${right.type()}`
+      `unknown operator: ${left.type()} ${operator} ${right.type()}`,
+      'unknown-operator'
     )
   }
 
@@ -392,10 +867,34 @@ function evalStringInfixExpression(
   return new obj.StringObject(leftVal + rightVal)
 }
 
+/**
+ * 求值插值字符串
+ *
+ * 嵌入表达式的值通过inspect()转换为字符串，例如字符串本身不加引号、数组显示为 [1, 2]
+ * 任何一个表达式求值出错都直接返回该错误
+ */
+function evalInterpolatedString(
+  node: ast.InterpolatedString,
+  env: Environment
+): obj.MonkeyObject {
+  let out = node.strings[0]
+
+  for (let i = 0; i < node.expressions.length; i++) {
+    const value = evalNode(node.expressions[i], env)
+    if (isError(value)) {
+      return value!
+    }
+    out += value!.inspect() + node.strings[i + 1]
+  }
+
+  return new obj.StringObject(out)
+}
+
 /**
  * 求值if表达式
  *
  * 根据条件的真假选择执行consequence或alternative分支
+ * else if 链中的alternative本身是IfExpression，直接递归求值
  */
 function evalIfExpression(
   ie: ast.IfExpression,
@@ -415,6 +914,202 @@ function evalIfExpression(
   }
 }
 
+/**
+ * 求值match表达式
+ *
+ * 按顺序尝试每个分支，求值第一个模式匹配成功并且守卫条件为真的分支
+ * 每个分支在新的作用域中绑定模式变量，匹配失败的分支留下的绑定不会影响后面的分支
+ * 没有分支匹配时返回错误
+ */
+function evalMatchExpression(
+  node: ast.MatchExpression,
+  env: Environment
+): obj.MonkeyObject | null {
+  const subject = evalNode(node.subject, env)
+  if (isError(subject)) {
+    return subject
+  }
+
+  for (const arm of node.arms) {
+    const armEnv = newEnclosedEnvironment(env)
+    if (!matchPattern(arm.pattern, subject!, armEnv)) {
+      continue
+    }
+
+    if (arm.guard) {
+      const guard = evalNode(arm.guard, armEnv)
+      if (isError(guard)) {
+        return guard
+      }
+      if (!isTruthy(guard!)) {
+        continue
+      }
+    }
+
+    return evalNode(arm.body, armEnv)
+  }
+
+  return newError(`no match arm for value: ${subject!.inspect()}`, 'no-match')
+}
+
+/**
+ * 检查值是否匹配模式，匹配过程中把模式变量绑定到env上
+ */
+function matchPattern(
+  pattern: ast.Pattern,
+  value: obj.MonkeyObject,
+  env: Environment
+): boolean {
+  return bindPattern(pattern, value, env) === null
+}
+
+/**
+ * 按模式解构值，把模式中的变量绑定到env上
+ *
+ * 用于let语句、函数参数和match表达式
+ * 值的结构与模式不符时返回说明原因的错误，成功时返回null
+ */
+function bindPattern(
+  pattern: ast.Pattern | ast.BindingTarget,
+  value: obj.MonkeyObject,
+  env: Environment
+): obj.ErrorObject | null {
+  if (pattern instanceof ast.Identifier) {
+    env.set(pattern.value, value)
+    return null
+  }
+
+  if (pattern instanceof ast.IdentifierPattern) {
+    env.set(pattern.name.value, value)
+    return null
+  }
+
+  if (pattern instanceof ast.WildcardPattern) {
+    return null
+  }
+
+  if (pattern instanceof ast.LiteralPattern) {
+    if (literalEquals(value, evalNode(pattern.value, env)!)) {
+      return null
+    }
+    return destructuringError(
+      `value ${value.inspect()} does not match pattern ${pattern}`
+    )
+  }
+
+  if (pattern instanceof ast.ArrayPattern) {
+    return bindArrayPattern(pattern, value, env)
+  }
+
+  if (pattern instanceof ast.HashPattern) {
+    return bindHashPattern(pattern, value, env)
+  }
+
+  return destructuringError(`unsupported pattern: ${pattern}`)
+}
+
+/**
+ * 按数组模式解构值
+ *
+ * 没有剩余元素时数组长度必须与模式相同，有剩余元素时至少要有模式中列出的元素个数
+ */
+function bindArrayPattern(
+  pattern: ast.ArrayPattern,
+  value: obj.MonkeyObject,
+  env: Environment
+): obj.ErrorObject | null {
+  if (!(value instanceof obj.ArrayObject)) {
+    return destructuringError(
+      `cannot destructure ${value.type()} with array pattern ${pattern}`
+    )
+  }
+
+  const elements = value.elements
+  const count = pattern.elements.length
+  if (pattern.rest ? elements.length < count : elements.length !== count) {
+    const expected = pattern.rest ? `at least ${count}` : `${count}`
+    return destructuringError(
+      `array pattern ${pattern} expects ${expected} elements, ` +
+        `got ${elements.length}`
+    )
+  }
+
+  for (let i = 0; i < count; i++) {
+    const error = bindPattern(pattern.elements[i], elements[i], env)
+    if (error) {
+      return error
+    }
+  }
+
+  // 剩余元素组成新数组，..._ 表示丢弃
+  if (pattern.rest && pattern.rest.value !== '_') {
+    env.set(pattern.rest.value, new obj.ArrayObject(elements.slice(count)))
+  }
+  return null
+}
+
+/**
+ * 按哈希表模式解构值
+ *
+ * 模式中列出的键都必须存在，没有列出的键会被忽略
+ */
+function bindHashPattern(
+  pattern: ast.HashPattern,
+  value: obj.MonkeyObject,
+  env: Environment
+): obj.ErrorObject | null {
+  if (!(value instanceof obj.HashObject)) {
+    return destructuringError(
+      `cannot destructure ${value.type()} with hash pattern ${pattern}`
+    )
+  }
+
+  for (const [keyNode, valuePattern] of pattern.pairs) {
+    const key = evalNode(keyNode, env)!
+    const pair = obj.isHashable(key)
+      ? value.pairs.get(key.hashKey().toString())
+      : undefined
+    if (!pair) {
+      return destructuringError(
+        `missing key ${keyNode} for hash pattern ${pattern}`
+      )
+    }
+
+    const error = bindPattern(valuePattern, pair.value, env)
+    if (error) {
+      return error
+    }
+  }
+  return null
+}
+
+/**
+ * 创建解构失败的错误对象
+ */
+function destructuringError(message: string): obj.ErrorObject {
+  return newError(message, 'destructuring-mismatch')
+}
+
+/**
+ * 检查值是否等于字面量模式的值
+ *
+ * 数字按数值比较（1 也能匹配 1.0），字符串按内容比较，布尔值是单例直接比较引用
+ */
+function literalEquals(
+  value: obj.MonkeyObject,
+  literal: obj.MonkeyObject
+): boolean {
+  if (isNumber(value) && isNumber(literal)) {
+    return evalInfixExpression('==', value, literal) === TRUE
+  }
+
+  if (value instanceof obj.StringObject && literal instanceof obj.StringObject) {
+    return value.value === literal.value
+  }
+
+  return value === literal
+}
+
 /**
  * 判断对象是否为真
  *
@@ -435,6 +1130,147 @@ function isTruthy(obj: obj.MonkeyObject): boolean {
   return true
 }
 
+/**
+ * 求值quote调用
+ *
+ * quote(expr) 不求值expr，而是把它的AST包装成QuoteObject返回
+ * expr中的unquote(x)会被立即求值，结果转换回AST节点后替换掉unquote调用
+ *
+ * @example
+ * ```
+ * quote(1 + 2)                      // QUOTE((1 + 2))
+ * let x = 8; quote(unquote(x) + 1)  // QUOTE((8 + 1))
+ * ```
+ */
+function evalQuote(
+  node: ast.CallExpression,
+  env: Environment
+): obj.MonkeyObject {
+  if (node.args.length !== 1) {
+    return newError(
+      `wrong number of arguments to quote. got=${node.args.length}, want=1`,
+      'wrong-argument-count'
+    )
+  }
+
+  // transform不能中途停止，记录第一个错误，之后的unquote调用不再求值
+  let error: obj.ErrorObject | null = null
+
+  const quoted = transform(node.args[0], (n) => {
+    if (error || !isUnquoteCall(n)) {
+      return n
+    }
+
+    const call = n as ast.CallExpression
+    if (call.args.length !== 1) {
+      error = newError(
+        `wrong number of arguments to unquote. got=${call.args.length}, want=1`,
+        'wrong-argument-count'
+      )
+      error.span = call.span
+      return n
+    }
+
+    const value = evalNode(call.args[0], env)
+    if (isError(value)) {
+      error = value as obj.ErrorObject
+      return n
+    }
+
+    const converted = convertObjectToASTNode(value!, call.span)
+    if (!converted) {
+      error = newError(
+        `cannot unquote ${value!.type()} into an AST node`,
+        'invalid-unquote'
+      )
+      error.span = call.span
+      return n
+    }
+
+    return converted
+  })
+
+  return error ?? new obj.QuoteObject(quoted)
+}
+
+/**
+ * 检查节点是否为unquote(...)调用
+ */
+function isUnquoteCall(node: ast.Node): boolean {
+  return (
+    node instanceof ast.CallExpression &&
+    node.func instanceof ast.Identifier &&
+    node.func.value === 'unquote'
+  )
+}
+
+/**
+ * 将unquote求值得到的对象转换回AST节点
+ *
+ * 支持数字、字符串、布尔值、数组、哈希表和quote值，
+ * 其他对象（如函数、null）没有对应的字面量，返回null
+ *
+ * @param span - 新节点使用的源代码位置，即被替换的unquote调用的位置
+ */
+function convertObjectToASTNode(
+  value: obj.MonkeyObject,
+  span?: token.Span
+): ast.Node | null {
+  let node: ast.Node | null = null
+
+  if (value instanceof obj.IntegerObject) {
+    const tok = { Type: token.INT, Literal: String(value.value), Span: span }
+    node = new ast.IntegerLiteral(tok, value.value)
+  } else if (value instanceof obj.FloatObject) {
+    const tok = { Type: token.FLOAT, Literal: value.inspect(), Span: span }
+    node = new ast.FloatLiteral(tok, value.value)
+  } else if (value instanceof obj.StringObject) {
+    const tok = { Type: token.STRING, Literal: value.value, Span: span }
+    node = new ast.StringLiteral(tok, value.value)
+  } else if (value instanceof obj.BooleanObject) {
+    const tok = value.value
+      ? { Type: token.TRUE, Literal: 'true', Span: span }
+      : { Type: token.FALSE, Literal: 'false', Span: span }
+    node = new ast.BooleanLiteral(tok, value.value)
+  } else if (value instanceof obj.ArrayObject) {
+    const array = new ast.ArrayLiteral({
+      Type: token.LBRACKET,
+      Literal: '[',
+      Span: span,
+    })
+    for (const element of value.elements) {
+      const converted = convertObjectToASTNode(element, span)
+      if (!converted) {
+        return null
+      }
+      array.elements.push(converted as ast.Expression)
+    }
+    node = array
+  } else if (value instanceof obj.HashObject) {
+    const hash = new ast.HashLiteral({
+      Type: token.LBRACE,
+      Literal: '{',
+      Span: span,
+    })
+    for (const pair of value.pairs.values()) {
+      const key = convertObjectToASTNode(pair.key, span)
+      const val = convertObjectToASTNode(pair.value, span)
+      if (!key || !val) {
+        return null
+      }
+      hash.pairs.set(key as ast.Expression, val as ast.Expression)
+    }
+    node = hash
+  } else if (value instanceof obj.QuoteObject) {
+    return value.node
+  }
+
+  if (node) {
+    node.span = span
+  }
+  return node
+}
+
 /**
  * 求值标识符
  *
@@ -456,7 +1292,133 @@ function evalIdentifier(
     return builtin
   }
 
-  return newError(`identifier not found: ${node.value}`)
+  return newError(`identifier not found: ${node.value}`, 'identifier-not-found')
+}
+
+/**
+ * 求值赋值表达式
+ *
+ * 赋值目标是标识符时，沿着作用域链找到最近的同名绑定并更新它，
+ * 因此闭包可以修改外层作用域中的变量；变量必须已经用let定义过，否则返回错误
+ * 赋值目标是索引表达式时，交给evalIndexAssignment处理
+ * 表达式的值是赋给目标的新值
+ */
+function evalAssignExpression(
+  node: ast.AssignExpression,
+  env: Environment
+): obj.MonkeyObject {
+  if (node.target instanceof ast.IndexExpression) {
+    return evalIndexAssignment(node, node.target, env)
+  }
+
+  const name = (node.target as ast.Identifier).value
+
+  const [current, ok] = env.get(name)
+  if (!ok) {
+    return newError(
+      `assignment to undeclared variable: ${name}`,
+      'undeclared-variable'
+    )
+  }
+
+  const value = evalAssignedValue(node, current!, env)
+  if (isError(value)) {
+    return value
+  }
+
+  env.assign(name, value)
+  return value
+}
+
+/**
+ * 求值索引赋值 arr[i] = v、hash[k] = v
+ *
+ * 直接修改原数组或原哈希表（而不是创建修改后的副本），
+ * 所有引用同一个数组或哈希表的变量都能看到修改
+ * 数组的索引必须在 [0, len) 范围内，赋值不会扩展数组，越界返回错误
+ * 哈希表的键必须可哈希，键不存在时会新增键值对
+ */
+function evalIndexAssignment(
+  node: ast.AssignExpression,
+  target: ast.IndexExpression,
+  env: Environment
+): obj.MonkeyObject {
+  const left = evalNode(target.left, env)
+  if (isError(left)) {
+    return left!
+  }
+
+  const index = evalNode(target.index, env)
+  if (isError(index)) {
+    return index!
+  }
+
+  // 数组元素赋值
+  if (left!.type() === obj.ARRAY_OBJ && index!.type() === obj.INTEGER_OBJ) {
+    const elements = (left as obj.ArrayObject).elements
+    const idx = (index as obj.IntegerObject).value
+
+    if (idx < 0 || idx >= elements.length) {
+      return newError(
+        `index out of bounds: ${idx} (length ${elements.length})`,
+        'index-out-of-bounds'
+      )
+    }
+
+    const value = evalAssignedValue(node, elements[idx], env)
+    if (isError(value)) {
+      return value
+    }
+
+    elements[idx] = value
+    return value
+  }
+
+  // 哈希表键值对赋值
+  if (left!.type() === obj.HASH_OBJ) {
+    if (!obj.isHashable(index!)) {
+      return newError(
+        `unusable as hash key: ${index!.type()}`,
+        'unusable-as-hash-key'
+      )
+    }
+
+    const pairs = (left as obj.HashObject).pairs
+    const hashed = index!.hashKey().toString()
+
+    // 复合赋值时不存在的键按null处理
+    const value = evalAssignedValue(node, pairs.get(hashed)?.value ?? NULL, env)
+    if (isError(value)) {
+      return value
+    }
+
+    pairs.set(hashed, new obj.HashPair(index!, value))
+    return value
+  }
+
+  return newError(
+    `index assignment not supported: ${left!.type()}`,
+    'index-not-supported'
+  )
+}
+
+/**
+ * 求值赋值运算符右侧，得到要写入目标的新值
+ *
+ * 复合赋值 x op= y 等价于 x = x op y，current是目标的当前值
+ */
+function evalAssignedValue(
+  node: ast.AssignExpression,
+  current: obj.MonkeyObject,
+  env: Environment
+): obj.MonkeyObject {
+  const value = evalNode(node.value, env)
+  if (isError(value) || node.operator === '=') {
+    return value!
+  }
+
+  // 复合赋值：去掉末尾的 = 得到对应的中缀运算符
+  return evalInfixExpression(node.operator.slice(0, -1), current, value!)
 }
 
 /**
@@ -495,6 +1457,9 @@ function applyFunction(
   if (func.type() === obj.FUNCTION_OBJ) {
     const funcObj = func as obj.FunctionObject
     const extendedEnv = extendFunctionEnv(funcObj, args)
+    if (extendedEnv instanceof obj.ErrorObject) {
+      return extendedEnv
+    }
     const evaluated = evalNode(funcObj.body, extendedEnv)
     return unwrapReturnValue(evaluated)
   }
@@ -505,7 +1470,7 @@ function applyFunction(
     return builtinObj.fn(...args)
   }
 
-  return newError(`not a function: ${func.type()}`)
+  return newError(`not a function: ${func.type()}`, 'not-a-function')
 }
 
 /**
@@ -513,15 +1478,19 @@ function applyFunction(
  *
  * 创建一个新的enclosed环境，并将参数绑定到参数名
  * 这样函数就可以访问其参数和外层作用域的变量
+ * 参数是解构模式时按模式解构实参，结构不符时返回错误；缺少的实参按null处理
  */
 function extendFunctionEnv(
   func: obj.FunctionObject,
   args: obj.MonkeyObject[]
-): Environment {
+): Environment | obj.ErrorObject {
   const env = newEnclosedEnvironment(func.env)
 
   for (let i = 0; i < func.parameters.length; i++) {
-    env.set(func.parameters[i].value, args[i])
+    const error = bindPattern(func.parameters[i], args[i] ?? NULL, env)
+    if (error) {
+      return error
+    }
   }
 
   return env
@@ -561,7 +1530,10 @@ function evalIndexExpression(
     return evalHashIndexExpression(left, index)
   }
 
-  return newError(`index operator not supported: ${left.type()}`)
+  return newError(
+    `index operator not supported: ${left.type()}`,
+    'index-not-supported'
+  )
 }
 
 /**
@@ -600,7 +1572,10 @@ function evalHashLiteral(
 
     // 检查键是否可哈希
     if (!obj.isHashable(key!)) {
-      return newError(`unusable as hash key: ${key!.type()}`)
+      return newError(
+        `unusable as hash key: ${key!.type()}`,
+        'unusable-as-hash-key'
+      )
     }
 
     const value = evalNode(valueNode, env)
@@ -626,7 +1601,10 @@ function evalHashIndexExpression(
 
   // 检查索引是否可哈希
   if (!obj.isHashable(index)) {
-    return newError(`unusable as hash key: ${index.type()}`)
+    return newError(
+      `unusable as hash key: ${index.type()}`,
+      'unusable-as-hash-key'
+    )
   }
 
   const hashed = index.hashKey()
@@ -642,9 +1620,20 @@ function evalHashIndexExpression(
 
 /**
  * 创建错误对象
+ *
+ * @param message - 错误信息
+ * @param code - 错误码，如 type-mismatch
+ */
+function newError(message: string, code: string): obj.ErrorObject {
+  return new obj.ErrorObject(message, code)
+}
+
+/**
+ * 检查对象是否为数字（整数或浮点数）
  */
-function newError(message: string): obj.ErrorObject {
-  return new obj.ErrorObject(message)
+function isNumber(objValue: obj.MonkeyObject): boolean {
+  const t = objValue.type()
+  return t === obj.INTEGER_OBJ || t === obj.FLOAT_OBJ
 }
 
 /**
@@ -0,0 +1,222 @@
+/**
+ * 宏展开的单元测试
+ *
+ * 测试quote/unquote、宏定义的收集和宏调用的展开
+ */
+
+import { describe, it, expect } from "vitest";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+import { evalNode } from "./evaluator";
+import { defineMacros, expandMacros } from "./macro";
+import { transform } from "../ast/visitor";
+import { Environment } from "../object/environment";
+import * as ast from "../ast/ast";
+import * as obj from "../object/object";
+
+/**
+ * 辅助函数：解析输入
+ */
+function parse(input: string): ast.Program {
+  return new Parser(new Lexer(input)).parseProgram();
+}
+
+/**
+ * 辅助函数：解析并求值输入
+ */
+function testEval(input: string): obj.MonkeyObject | null {
+  return evalNode(parse(input), new Environment());
+}
+
+/**
+ * 辅助函数：收集宏定义并展开宏调用
+ */
+function testExpand(input: string): ast.Program | obj.ErrorObject {
+  const env = new Environment();
+  return expandMacros(defineMacros(parse(input), env), env);
+}
+
+/**
+ * 辅助函数：把程序中所有字面量模式的值替换为call表达式
+ * 解析器不允许模式中出现调用，只有手工构造的AST才会这样
+ */
+function callInPatterns(program: ast.Program, call: string): ast.Program {
+  const expression = (parse(call).statements[0] as ast.ExpressionStatement)
+    .expression;
+  return transform(program, (node) =>
+    node instanceof ast.LiteralPattern
+      ? new ast.LiteralPattern(node.token, expression)
+      : node
+  ) as ast.Program;
+}
+
+describe("Macro", () => {
+  it("quote应该返回未求值的AST", () => {
+    const tests = [
+      { input: "quote(5)", expected: "5" },
+      { input: "quote(5 + 8)", expected: "(5 + 8)" },
+      { input: "quote(foobar)", expected: "foobar" },
+      { input: "quote(foobar + barfoo)", expected: "(foobar + barfoo)" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.QuoteObject);
+      expect((evaluated as obj.QuoteObject).node.toString()).toBe(test.expected);
+    }
+  });
+
+  it("quote中的unquote应该被求值并替换为AST节点", () => {
+    const tests = [
+      { input: "quote(unquote(4))", expected: "4" },
+      { input: "quote(unquote(4 + 4))", expected: "8" },
+      { input: "quote(8 + unquote(4 + 4))", expected: "(8 + 8)" },
+      { input: "let foobar = 8; quote(unquote(foobar))", expected: "8" },
+      { input: "quote(unquote(true == false))", expected: "false" },
+      { input: "quote(unquote(quote(4 + 4)))", expected: "(4 + 4)" },
+      {
+        input: "let q = quote(4 + 4); quote(unquote(4 + 4) + unquote(q))",
+        expected: "(8 + (4 + 4))",
+      },
+      { input: 'quote(unquote("a" + "b"))', expected: '"ab"' },
+      { input: "quote(unquote([1, 2.5]))", expected: "[1, 2.5]" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.QuoteObject);
+      expect((evaluated as obj.QuoteObject).node.toString()).toBe(test.expected);
+    }
+  });
+
+  it("函数中的quote每次调用都应该重新展开unquote", () => {
+    const evaluated = testEval(
+      "let f = fn(x) { quote(unquote(x) + 1) }; f(1); f(2)"
+    );
+
+    expect((evaluated as obj.QuoteObject).node.toString()).toBe("(2 + 1)");
+  });
+
+  it("quote和unquote出错时应该返回错误", () => {
+    const tests = [
+      { input: "quote(1, 2)", code: "wrong-argument-count" },
+      { input: "quote(unquote(1 + true))", code: "type-mismatch" },
+      { input: "quote(unquote(fn(x) { x }))", code: "invalid-unquote" },
+      { input: "unquote(1)", code: "identifier-not-found" },
+      { input: "let m = fn() { macro() { 1 } }; m()", code: "misplaced-macro" },
+    ];
+
+    for (const test of tests) {
+      const evaluated = testEval(test.input);
+      expect(evaluated).toBeInstanceOf(obj.ErrorObject);
+      expect((evaluated as obj.ErrorObject).code).toBe(test.code);
+    }
+  });
+
+  it("defineMacros应该取出顶层的宏定义", () => {
+    const input = `
+      let number = 1;
+      let function = fn(x, y) { x + y };
+      let mymacro = macro(x, y) { x + y; };
+    `;
+    const program = parse(input);
+    const env = new Environment();
+
+    const result = defineMacros(program, env);
+
+    expect(result.statements.length).toBe(2);
+    expect(program.statements.length).toBe(3);
+    expect(env.get("number")[1]).toBe(false);
+    expect(env.get("function")[1]).toBe(false);
+
+    const [macro, ok] = env.get("mymacro");
+    expect(ok).toBe(true);
+    expect(macro).toBeInstanceOf(obj.MacroObject);
+    expect((macro as obj.MacroObject).parameters.map((p) => p.value)).toEqual([
+      "x",
+      "y",
+    ]);
+    expect((macro as obj.MacroObject).body.toString()).toBe("(x + y)");
+  });
+
+  it("expandMacros应该把宏调用替换为宏返回的AST", () => {
+    const tests = [
+      {
+        input: "let infixExpression = macro() { quote(1 + 2); }; infixExpression();",
+        expected: "(1 + 2)",
+      },
+      {
+        input: "let reverse = macro(a, b) { quote(unquote(b) - unquote(a)); }; reverse(2 + 2, 10 - 5);",
+        expected: "(10 - 5) - (2 + 2)",
+      },
+      {
+        input: `
+          let unless = macro(condition, consequence, alternative) {
+            quote(if (!(unquote(condition))) {
+              unquote(consequence);
+            } else {
+              unquote(alternative);
+            });
+          };
+          unless(10 > 5, puts("not greater"), puts("greater"));
+        `,
+        expected: 'if (!(10 > 5)) { puts("not greater") } else { puts("greater") }',
+      },
+    ];
+
+    for (const test of tests) {
+      const expanded = testExpand(test.input);
+      expect(expanded).toBeInstanceOf(ast.Program);
+      expect(expanded.toString()).toBe(parse(test.expected).toString());
+    }
+  });
+
+  it("宏展开出错时应该返回带位置的错误", () => {
+    const tests = [
+      { input: "let m = macro(x) { quote(x) };\nm(1, 2)", code: "wrong-argument-count", position: "2:1" },
+      { input: "let m = macro() { 1 };\nm()", code: "invalid-macro-result", position: "2:1" },
+      { input: "let m = macro() { 1 + true };\nm()", code: "type-mismatch", position: "1:19" },
+    ];
+
+    for (const test of tests) {
+      const expanded = testExpand(test.input) as obj.ErrorObject;
+      expect(expanded).toBeInstanceOf(obj.ErrorObject);
+      expect(expanded.code).toBe(test.code);
+      expect(`${expanded.span?.start.line}:${expanded.span?.start.column}`).toBe(test.position);
+    }
+  });
+
+  it("unquote和宏调用在模式中也应该被替换", () => {
+    const quoted = evalNode(
+      callInPatterns(parse("quote(match (v) { [0] => 1 })"), "unquote(1 + 1)"),
+      new Environment()
+    );
+    expect((quoted as obj.QuoteObject).node.toString()).toBe(
+      "match (v) { [2] => 1 }"
+    );
+
+    const env = new Environment();
+    const program = callInPatterns(
+      parse("let two = macro() { quote(2) }; match (v) { 0 => 1 }"),
+      "two()"
+    );
+    const expanded = expandMacros(defineMacros(program, env), env);
+    expect(expanded.toString()).toBe("match (v) { 2 => 1 }");
+  });
+
+  it("宏可以用来定义新的控制结构", () => {
+    const input = `
+      let unless = macro(cond, cons, alt) {
+        quote(if (!(unquote(cond))) { unquote(cons) } else { unquote(alt) })
+      };
+      let x = 3;
+      unless(x > 5, "small", "big")
+    `;
+    const env = new Environment();
+    const macroEnv = new Environment();
+    const expanded = expandMacros(defineMacros(parse(input), macroEnv), macroEnv);
+
+    const evaluated = evalNode(expanded as ast.Program, env);
+    expect((evaluated as obj.StringObject).value).toBe("small");
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * 宏展开模块
+ *
+ * 宏在求值之前展开，分为两步：
+ * 1. defineMacros：取出顶层的宏定义 let name = macro(...) { ... }，保存到宏环境中
+ * 2. expandMacros：把程序中的宏调用替换为宏体返回的AST
+ *
+ * 宏的参数是未求值的AST（QuoteObject），宏体必须返回quote(...)的结果
+ *
+ * @example
+ * ```
+ * let unless = macro(cond, cons, alt) {
+ *   quote(if (!(unquote(cond))) { unquote(cons) } else { unquote(alt) })
+ * };
+ * unless(10 > 5, puts("not greater"), puts("greater"));
+ * ```
+ */
+
+import * as ast from '../ast/ast'
+import { transform } from '../ast/visitor'
+import * as obj from '../object/object'
+import { Environment, newEnclosedEnvironment } from '../object/environment'
+import { evalNode } from './evaluator'
+
+/**
+ * 收集宏定义
+ *
+ * 把顶层let语句中的宏字面量转换为MacroObject保存到env中，
+ * 返回去掉了这些宏定义的新程序，传入的program不会被修改
+ * 只有顶层的宏定义会被识别，嵌套在函数或代码块中的宏字面量在求值时报错
+ *
+ * @param program - 要处理的程序
+ * @param env - 保存宏定义的环境
+ * @returns 去掉宏定义之后的程序
+ */
+export function defineMacros(
+  program: ast.Program,
+  env: Environment
+): ast.Program {
+  const result = new ast.Program()
+  result.span = program.span
+
+  for (const stmt of program.statements) {
+    if (
+      stmt instanceof ast.LetStatement &&
+      stmt.name instanceof ast.Identifier &&
+      stmt.value instanceof ast.MacroLiteral
+    ) {
+      const macro = stmt.value
+      env.set(
+        stmt.name.value,
+        new obj.MacroObject(macro.parameters, macro.body, env)
+      )
+      continue
+    }
+    result.statements.push(stmt)
+  }
+
+  return result
+}
+
+/**
+ * 展开宏调用
+ *
+ * 遍历程序，把调用了env中的宏的CallExpression替换为宏体返回的AST
+ * 宏体求值出错，或者返回的不是quote值时，停止展开并返回错误对象
+ *
+ * @param program - 已经用defineMacros处理过的程序
+ * @param env - 保存宏定义的环境
+ * @returns 展开后的新程序，或者错误对象
+ */
+export function expandMacros(
+  program: ast.Program,
+  env: Environment
+): ast.Program | obj.ErrorObject {
+  // transform不能中途停止，记录第一个错误，之后的宏调用不再展开
+  let error: obj.ErrorObject | null = null
+
+  const expanded = transform(program, (node) => {
+    if (error || !(node instanceof ast.CallExpression)) {
+      return node
+    }
+
+    const macro = lookupMacro(node, env)
+    if (!macro) {
+      return node
+    }
+
+    const result = expandMacroCall(node, macro)
+    if (result instanceof obj.ErrorObject) {
+      error = result
+      return node
+    }
+    return result
+  })
+
+  return error ?? (expanded as ast.Program)
+}
+
+/**
+ * 如果调用的是宏，返回对应的MacroObject
+ */
+function lookupMacro(
+  call: ast.CallExpression,
+  env: Environment
+): obj.MacroObject | null {
+  if (!(call.func instanceof ast.Identifier)) {
+    return null
+  }
+
+  const [value, ok] = env.get(call.func.value)
+  if (!ok || !(value instanceof obj.MacroObject)) {
+    return null
+  }
+
+  return value
+}
+
+/**
+ * 展开一次宏调用
+ *
+ * 参数不求值，而是包装成QuoteObject绑定到宏参数上，然后求值宏体
+ */
+function expandMacroCall(
+  call: ast.CallExpression,
+  macro: obj.MacroObject
+): ast.Node | obj.ErrorObject {
+  if (call.args.length !== macro.parameters.length) {
+    return macroError(
+      `wrong number of arguments to macro. got=${call.args.length}, ` +
+        `want=${macro.parameters.length}`,
+      'wrong-argument-count',
+      call
+    )
+  }
+
+  const evalEnv = newEnclosedEnvironment(macro.env)
+  macro.parameters.forEach((param, i) => {
+    evalEnv.set(param.value, new obj.QuoteObject(call.args[i]))
+  })
+
+  let evaluated = evalNode(macro.body, evalEnv)
+  if (evaluated instanceof obj.ReturnValue) {
+    evaluated = evaluated.value
+  }
+
+  if (evaluated instanceof obj.ErrorObject) {
+    return evaluated
+  }
+
+  if (!(evaluated instanceof obj.QuoteObject)) {
+    const type = evaluated ? evaluated.type() : obj.NULL_OBJ
+    return macroError(
+      `macro must return a quoted AST node, got ${type}`,
+      'invalid-macro-result',
+      call
+    )
+  }
+
+  return evaluated.node
+}
+
+/**
+ * 创建指向宏调用位置的错误对象
+ */
+function macroError(
+  message: string,
+  code: string,
+  call: ast.CallExpression
+): obj.ErrorObject {
+  const error = new obj.ErrorObject(message, code)
+  error.span = call.span
+  return error
+}
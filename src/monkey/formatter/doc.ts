@@ -0,0 +1,321 @@
+/**
+ * Doc模块（排版中间表示）
+ *
+ * 格式化分两步进行：先把AST转换为Doc，再由printDoc按行宽把Doc排版为字符串
+ * Doc描述的是"可以在哪里换行"，而不是"在哪里换行"：
+ * - group：一组内容，放得下时整组排在一行，放不下时组内的line全部换行
+ * - line / softline：不换行时分别输出一个空格 / 什么都不输出
+ * - hardline：总是换行，并让所有外层的group都换行
+ * - indent：换行之后增加一级缩进
+ * - ifBreak：根据所在的group是否换行输出不同的内容，例如多行时才有的尾随逗号
+ *
+ * 算法参考了 Wadler 的 "A prettier printer"
+ */
+
+/**
+ * Doc类型
+ * 字符串原样输出，数组依次输出其中的每一项
+ */
+export type Doc = string | Doc[] | Group | Indent | Line | IfBreak | BreakParent;
+
+/**
+ * 一组内容，排版时整体决定是否换行
+ */
+interface Group {
+  type: "group";
+  contents: Doc;
+  shouldBreak: boolean;   // 是否必须换行，包含hardline时由propagateBreaks设置
+}
+
+/**
+ * 换行之后增加一级缩进
+ */
+interface Indent {
+  type: "indent";
+  contents: Doc;
+}
+
+/**
+ * 可能的换行位置
+ * - soft为true时不换行输出空字符串，否则输出一个空格
+ * - hard为true时总是换行
+ */
+interface Line {
+  type: "line";
+  soft: boolean;
+  hard: boolean;
+}
+
+/**
+ * 根据所在group是否换行选择输出的内容
+ */
+interface IfBreak {
+  type: "ifBreak";
+  breakContents: Doc;
+  flatContents: Doc;
+}
+
+/**
+ * 强制所有外层group换行，例如行注释之后必须换行
+ */
+interface BreakParent {
+  type: "breakParent";
+}
+
+// ==================== 构造函数 ====================
+
+export const line: Doc = { type: "line", soft: false, hard: false };
+export const softline: Doc = { type: "line", soft: true, hard: false };
+export const breakParent: Doc = { type: "breakParent" };
+export const hardline: Doc = [
+  { type: "line", soft: false, hard: true },
+  breakParent,
+];
+
+/**
+ * 创建一组内容
+ *
+ * @param shouldBreak - 为true时无论是否放得下都换行
+ */
+export function group(contents: Doc, shouldBreak = false): Doc {
+  return { type: "group", contents, shouldBreak };
+}
+
+/**
+ * 换行之后增加一级缩进
+ */
+export function indent(contents: Doc): Doc {
+  return { type: "indent", contents };
+}
+
+/**
+ * 所在的group换行时输出breakContents，否则输出flatContents
+ */
+export function ifBreak(breakContents: Doc, flatContents: Doc = ""): Doc {
+  return { type: "ifBreak", breakContents, flatContents };
+}
+
+/**
+ * 用分隔符连接多个Doc
+ */
+export function join(separator: Doc, docs: Doc[]): Doc {
+  const parts: Doc[] = [];
+  docs.forEach((doc, i) => {
+    if (i > 0) {
+      parts.push(separator);
+    }
+    parts.push(doc);
+  });
+  return parts;
+}
+
+// ==================== 排版 ====================
+
+/**
+ * 排版选项
+ */
+export interface PrintOptions {
+  lineWidth: number;     // 每行的最大宽度
+  indentWidth: number;   // 每级缩进的宽度
+  useTabs: boolean;      // 是否用制表符缩进（宽度按indentWidth计算）
+}
+
+/**
+ * 排版模式：break表示所在的group换行，flat表示排在一行
+ */
+type Mode = "break" | "flat";
+
+/**
+ * 待输出的Doc，以及它所在的缩进层级和排版模式
+ */
+type Command = [level: number, mode: Mode, doc: Doc];
+
+/**
+ * 把Doc排版为字符串
+ *
+ * 每一行末尾的空白会被去掉，因此空行中不会留下缩进
+ */
+export function printDoc(doc: Doc, options: PrintOptions): string {
+  propagateBreaks(doc);
+
+  const unit = options.useTabs ? "\t" : " ".repeat(options.indentWidth);
+  const lines: string[] = [];
+  let current = "";
+  let width = 0;   // 当前行已经占用的宽度
+
+  const commands: Command[] = [[0, "break", doc]];
+
+  while (commands.length > 0) {
+    const [level, mode, doc] = commands.pop()!;
+
+    if (typeof doc === "string") {
+      current += doc;
+      const newline = doc.lastIndexOf("\n");
+      width = newline === -1 ? width + doc.length : doc.length - newline - 1;
+      continue;
+    }
+
+    if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        commands.push([level, mode, doc[i]]);
+      }
+      continue;
+    }
+
+    switch (doc.type) {
+      case "group": {
+        const groupMode: Mode =
+          mode === "flat" ||
+          (!doc.shouldBreak &&
+            fits(
+              [level, "flat", doc.contents],
+              commands,
+              options.lineWidth - width
+            ))
+            ? "flat"
+            : "break";
+        commands.push([level, groupMode, doc.contents]);
+        break;
+      }
+
+      case "indent":
+        commands.push([level + 1, mode, doc.contents]);
+        break;
+
+      case "ifBreak":
+        commands.push([
+          level,
+          mode,
+          mode === "break" ? doc.breakContents : doc.flatContents,
+        ]);
+        break;
+
+      case "line":
+        if (mode === "flat" && !doc.hard) {
+          if (!doc.soft) {
+            current += " ";
+            width += 1;
+          }
+          break;
+        }
+        lines.push(current.trimEnd());
+        current = unit.repeat(level);
+        width = level * options.indentWidth;
+        break;
+
+      case "breakParent":
+        break;
+    }
+  }
+
+  lines.push(current.trimEnd());
+  return lines.join("\n");
+}
+
+/**
+ * 判断next按flat模式排在当前行的剩余宽度内是否放得下
+ *
+ * next之后还没有输出的内容（rest）也会计入，直到遇到一个会换行的位置为止，
+ * 例如 foo(a, b) { 中的参数列表能否排在一行，还要看后面的 ") {" 放不放得下
+ */
+function fits(next: Command, rest: Command[], width: number): boolean {
+  const commands: Command[] = [next];
+  let restIndex = rest.length;
+
+  while (width >= 0) {
+    if (commands.length === 0) {
+      if (restIndex === 0) {
+        return true;
+      }
+      commands.push(rest[--restIndex]);
+      continue;
+    }
+
+    const [level, mode, doc] = commands.pop()!;
+
+    if (typeof doc === "string") {
+      if (doc.includes("\n")) {
+        return false;
+      }
+      width -= doc.length;
+      continue;
+    }
+
+    if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        commands.push([level, mode, doc[i]]);
+      }
+      continue;
+    }
+
+    switch (doc.type) {
+      case "group":
+        commands.push([level, doc.shouldBreak ? "break" : mode, doc.contents]);
+        break;
+
+      case "indent":
+        commands.push([level + 1, mode, doc.contents]);
+        break;
+
+      case "ifBreak":
+        commands.push([
+          level,
+          mode,
+          mode === "break" ? doc.breakContents : doc.flatContents,
+        ]);
+        break;
+
+      case "line":
+        if (mode === "break" || doc.hard) {
+          return true;
+        }
+        if (!doc.soft) {
+          width -= 1;
+        }
+        break;
+
+      case "breakParent":
+        break;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * 标记包含hardline或breakParent的group为必须换行
+ *
+ * @returns doc中是否包含强制换行
+ */
+function propagateBreaks(doc: Doc): boolean {
+  if (typeof doc === "string") {
+    return false;
+  }
+
+  if (Array.isArray(doc)) {
+    let found = false;
+    for (const part of doc) {
+      if (propagateBreaks(part)) {
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  switch (doc.type) {
+    case "group": {
+      if (propagateBreaks(doc.contents)) {
+        doc.shouldBreak = true;
+      }
+      return doc.shouldBreak;
+    }
+    case "indent":
+      return propagateBreaks(doc.contents);
+    case "ifBreak":
+      return propagateBreaks(doc.breakContents);
+    case "line":
+      return doc.hard;
+    case "breakParent":
+      return true;
+  }
+}
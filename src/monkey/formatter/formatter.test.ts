@@ -0,0 +1,214 @@
+/**
+ * Formatter模块的单元测试
+ *
+ * 测试格式化的排版规则、注释和空行的保留，以及格式化的幂等性
+ */
+
+import { describe, it, expect } from "vitest";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+import { format, formatProgram } from "./formatter";
+import type { FormatOptions } from "./formatter";
+
+/**
+ * 辅助函数：格式化输入，并检查格式化的结果再次格式化时保持不变
+ */
+function testFormat(input: string, options: FormatOptions = {}): string {
+  const result = format(input, options);
+  expect(result.success).toBe(true);
+
+  const again = format(result.output, options);
+  expect(again.output).toBe(result.output);
+
+  // 格式化不能改变程序的结构
+  const before = new Parser(new Lexer(input)).parseProgram().toString();
+  const after = new Parser(new Lexer(result.output)).parseProgram().toString();
+  expect(after).toBe(before);
+
+  return result.output;
+}
+
+describe("Formatter", () => {
+  it("应该规范空白并只保留必要的括号", () => {
+    const tests = [
+      { input: "let add=fn(a,b){a+b};", expected: "let add = fn(a, b) { a + b };\n" },
+      { input: "(5 + (3 * 2))", expected: "5 + 3 * 2;\n" },
+      { input: "(5 + 3) * 2", expected: "(5 + 3) * 2;\n" },
+      { input: "1 - (2 - 3); (1 - 2) - 3", expected: "1 - (2 - 3);\n1 - 2 - 3;\n" },
+      { input: "2 ** (3 ** 2); (2 ** 3) ** 2", expected: "2 ** 3 ** 2;\n(2 ** 3) ** 2;\n" },
+      { input: "-(a + b) * -x; !(a == b)", expected: "-(a + b) * -x;\n!(a == b);\n" },
+      { input: "(-a)[0]; f(x)[0](y)", expected: "(-a)[0];\nf(x)[0](y);\n" },
+      { input: "a = b = c + 1; x += (y = 2)", expected: "a = b = c + 1;\nx += y = 2;\n" },
+      { input: 'let s = "say \\"hi\\" ${ name  +1 }"', expected: 'let s = "say \\"hi\\" ${name + 1}";\n' },
+      { input: "let {\"a\":[x,y],\"b\":b}=h;let [head,...tail]=arr;", expected: 'let {"a": [x, y], "b": b} = h;\nlet [head, ...tail] = arr;\n' },
+      { input: "", expected: "" },
+    ];
+
+    for (const test of tests) {
+      expect(testFormat(test.input)).toBe(test.expected);
+    }
+  });
+
+  it("应该按语句和代码块换行", () => {
+    const input = `let fib = fn(x) { if (x < 2) { return x; } let a = fib(x - 1); a + fib(x - 2) };
+while (i > 0) { i -= 1 }
+if (x > 5) { "big" } else if (x < 0) { "negative" } else { "small" }
+let r = match (x) { 0 => "zero", n if n < 0 => "negative", _ => "other" };
+map([1, 2, 3], fn(x) { let y = x * 2; y + 1 });`;
+
+    expect(testFormat(input)).toBe(`let fib = fn(x) {
+  if (x < 2) { return x; }
+  let a = fib(x - 1);
+  a + fib(x - 2)
+};
+while (i > 0) {
+  i -= 1
+}
+if (x > 5) { "big" } else if (x < 0) { "negative" } else { "small" }
+let r = match (x) {
+  0 => "zero",
+  n if n < 0 => "negative",
+  _ => "other",
+};
+map([1, 2, 3], fn(x) {
+  let y = x * 2;
+  y + 1
+});
+`);
+  });
+
+  it("超过行宽时应该拆成多行", () => {
+    const input = `let result = compute(firstArgument + secondArgument, thirdArgument * fourthArgument);
+let ok = aaaaaaaaaaaaaaaaaaaaaaaa && bbbbbbbbbbbbbbbbbbbbbbbbbbbbbb && cccccccccccccccccccccc;
+if (aaaaaaaaaaaaaaaaaaaaaaaa && bbbbbbbbbbbbbbbbbbbbbbbbbbbbbb && cccccccccccccccccccccc) { 1 } else { 2 }`;
+
+    expect(testFormat(input)).toBe(`let result = compute(
+  firstArgument + secondArgument,
+  thirdArgument * fourthArgument,
+);
+let ok = aaaaaaaaaaaaaaaaaaaaaaaa &&
+  bbbbbbbbbbbbbbbbbbbbbbbbbbbbbb &&
+  cccccccccccccccccccccc;
+if (
+  aaaaaaaaaaaaaaaaaaaaaaaa &&
+  bbbbbbbbbbbbbbbbbbbbbbbbbbbbbb &&
+  cccccccccccccccccccccc
+) {
+  1
+} else {
+  2
+}
+`);
+  });
+
+  it("应该支持缩进、行宽和尾随逗号选项", () => {
+    const input = 'let person = {"name": "Monkey", "age": 1}; let f = fn(x) { let y = x; y };';
+    const options = { useTabs: true, lineWidth: 30, trailingComma: false };
+
+    expect(testFormat(input, options)).toBe(`let person = {
+\t"name": "Monkey",
+\t"age": 1
+};
+let f = fn(x) {
+\tlet y = x;
+\ty
+};
+`);
+
+    expect(testFormat("let f = fn(x) { let y = x; y };", { indentWidth: 4 })).toBe(
+      "let f = fn(x) {\n    let y = x;\n    y\n};\n"
+    );
+  });
+
+  it("应该保留注释", () => {
+    const input = `// 文件头注释
+let x = 1; // 行尾注释
+let list = [1, // 第一项
+  2];
+/* 块注释
+   可以跨行 */
+let f = fn() {
+  // 只有注释的函数体
+};
+let y = 1 + /* 表达式内部的注释 */ 2;
+match (x) {
+  // 分支之前的注释
+  1 => "one",
+  _ => "other" // 最后一个分支
+}
+// 文件末尾的注释`;
+
+    expect(testFormat(input)).toBe(`// 文件头注释
+let x = 1; // 行尾注释
+let list = [
+  1, // 第一项
+  2,
+];
+/* 块注释
+   可以跨行 */
+let f = fn() {
+  // 只有注释的函数体
+};
+let y = 1 + /* 表达式内部的注释 */ 2;
+match (x) {
+  // 分支之前的注释
+  1 => "one",
+  _ => "other", // 最后一个分支
+}
+// 文件末尾的注释
+`);
+  });
+
+  it("表达式中的注释应该留在相邻的节点旁边", () => {
+    const tests = [
+      { input: "let x = 1 + /* c */ 2;", expected: "let x = 1 + /* c */ 2;\n" },
+      { input: "let x = 1 /* c */ + 2 * 3;", expected: "let x = 1 /* c */ + 2 * 3;\n" },
+      { input: "f(1, /* c */ x[/* i */ 0]);", expected: "f(1, /* c */ x[/* i */ 0]);\n" },
+      { input: "let x = 1 + // c\n  2;", expected: "let x = 1 +\n  // c\n  2;\n" },
+      {
+        input: "if (x) { 1 } // c\nelse { 2 }",
+        expected: "if (x) {\n  1\n} // c\nelse {\n  2\n}\n",
+      },
+      {
+        input: "if (x) { 1 } /* c */ else if (y) { 2 }",
+        expected: "if (x) {\n  1\n} /* c */ else if (y) {\n  2\n}\n",
+      },
+    ];
+
+    for (const test of tests) {
+      expect(testFormat(test.input)).toBe(test.expected);
+    }
+  });
+
+  it("应该保留空行，连续的空行合并为一行", () => {
+    const input = "let a = 1;\n\n\n\nlet b = 2;\nlet c = 3;\n\n// 注释\n\nlet d = 4;";
+
+    expect(testFormat(input)).toBe(
+      "let a = 1;\n\nlet b = 2;\nlet c = 3;\n\n// 注释\n\nlet d = 4;\n"
+    );
+    expect(testFormat(input, { preserveBlankLines: false })).toBe(
+      "let a = 1;\nlet b = 2;\nlet c = 3;\n// 注释\nlet d = 4;\n"
+    );
+  });
+
+  it("if表达式后面的语句以 ( 开头时应该保留分号", () => {
+    expect(testFormat("if (a) { 1 }; (b + 1) * 2")).toBe("if (a) { 1 };\n(b + 1) * 2;\n");
+    expect(testFormat("if (a) { 1 }; [2]; x")).toBe("if (a) { 1 };\n[2];\nx;\n");
+    expect(testFormat("if (a) { 1 }; (2); x")).toBe("if (a) { 1 }\n2;\nx;\n");
+  });
+
+  it("有语法错误时应该返回原始代码和诊断信息", () => {
+    const result = format("let x = ;");
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBe("let x = ;");
+    expect(result.diagnostics[0].message).toBe("no prefix parse function for ; found");
+  });
+
+  it("应该格式化手工构造的AST", () => {
+    const program = new Parser(new Lexer("let x = [1, 2]; x")).parseProgram();
+    program.statements.forEach((stmt) => (stmt.span = undefined));
+
+    expect(formatProgram(program)).toBe("let x = [1, 2];\nx;\n");
+  });
+});
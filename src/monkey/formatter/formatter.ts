@@ -0,0 +1,1008 @@
+/**
+ * Formatter模块（代码格式化）
+ *
+ * 把Monkey源代码按统一的风格重新排版：
+ * - 按运算符优先级只保留必要的括号
+ * - 超过行宽的数组、哈希表、参数列表等拆成每项一行，多行时可以加上尾随逗号
+ * - 保留注释和语句之间的空行（连续的空行合并为一行）
+ *
+ * 格式化是幂等的：对格式化的结果再次格式化，得到的代码不变
+ *
+ * 注释按位置挂到最近的节点上：
+ * - 语句、列表元素或表达式之前的注释放在它前面
+ * - 与语句或元素结尾在同一行的注释放在它后面
+ * - 操作数和运算符之间的块注释放在操作数后面，if的代码块和else之间的注释放在 } 后面
+ * - 其他位置（例如关键字和标识符之间）的注释移到所在语句的前面
+ *
+ * @example
+ * ```typescript
+ * format("let add=fn(a,b){a+b};").output  // 返回 "let add = fn(a, b) { a + b };\n"
+ * ```
+ */
+
+import * as ast from "../ast/ast";
+import * as token from "../token/token";
+import { Lexer, tokenize } from "../lexer/lexer";
+import { Parser, Precedence, lookupPrecedence } from "../parser/parser";
+import type { Diagnostic } from "../diagnostic/diagnostic";
+import {
+  breakParent,
+  group,
+  hardline,
+  ifBreak,
+  indent,
+  join,
+  line,
+  printDoc,
+  softline,
+} from "./doc";
+import type { Doc } from "./doc";
+
+/**
+ * 格式化选项
+ */
+export interface FormatOptions {
+  indentWidth?: number;          // 每级缩进的空格数，默认2
+  useTabs?: boolean;             // 是否用制表符缩进，默认false
+  lineWidth?: number;            // 每行的最大宽度，默认80
+  trailingComma?: boolean;       // 拆成多行的列表是否在最后一项后面加逗号，默认true
+  preserveBlankLines?: boolean;  // 是否保留语句之间的空行，默认true
+}
+
+/**
+ * format的返回结果
+ */
+export interface FormatResult {
+  success: boolean;              // 是否格式化成功，有语法错误时为false
+  output: string;                // 格式化后的代码，失败时为原始代码
+  diagnostics: Diagnostic[];     // 词法和语法分析的诊断信息
+}
+
+/**
+ * 默认的格式化选项
+ */
+const defaultOptions: Required<FormatOptions> = {
+  indentWidth: 2,
+  useTabs: false,
+  lineWidth: 80,
+  trailingComma: true,
+  preserveBlankLines: true,
+};
+
+/**
+ * 不需要加括号的表达式（字面量、标识符、调用、索引等）的优先级
+ */
+const PRIMARY = Precedence.INDEX + 1;
+
+/**
+ * 格式化源代码
+ *
+ * 有语法错误时不做格式化，原样返回源代码和诊断信息
+ *
+ * @param source - Monkey源代码
+ * @param options - 可选的格式化选项
+ */
+export function format(
+  source: string,
+  options: FormatOptions = {}
+): FormatResult {
+  const parser = new Parser(new Lexer(source));
+  const program = parser.parseProgram();
+  const diagnostics = parser.getDiagnostics();
+
+  if (diagnostics.some((d) => d.severity === "error")) {
+    return { success: false, output: source, diagnostics };
+  }
+
+  // Parser不保留注释，单独做一次词法分析收集注释
+  const comments = tokenize(source, { keepComments: true }).tokens.flatMap(
+    (tok) => tok.Trivia ?? []
+  );
+
+  return {
+    success: true,
+    output: formatProgram(program, options, comments),
+    diagnostics,
+  };
+}
+
+/**
+ * 格式化AST
+ *
+ * 注释和空行依赖节点上的Span，手工构造的没有Span的AST只按结构排版
+ *
+ * @param program - 要格式化的程序
+ * @param options - 可选的格式化选项
+ * @param comments - 源代码中的注释，按出现的顺序排列
+ * @returns 格式化后的代码，不为空时以换行符结尾
+ */
+export function formatProgram(
+  program: ast.Program,
+  options: FormatOptions = {},
+  comments: token.Comment[] = []
+): string {
+  const formatter = new Formatter({ ...defaultOptions, ...options }, comments);
+  return formatter.print(program);
+}
+
+/**
+ * Formatter类
+ *
+ * 把AST转换为Doc，并按源代码的顺序把注释插入到合适的位置
+ */
+class Formatter {
+  private options: Required<FormatOptions>;   // 格式化选项
+  private comments: token.Comment[];          // 源代码中的全部注释
+  private nextComment = 0;                    // 下一条还没有输出的注释
+
+  constructor(options: Required<FormatOptions>, comments: token.Comment[]) {
+    this.options = options;
+    this.comments = comments;
+  }
+
+  /**
+   * 格式化整个程序
+   */
+  public print(program: ast.Program): string {
+    const doc = this.printStatements(program.statements, Infinity, false);
+    const output = printDoc(doc, this.options);
+    return output === "" ? "" : output + "\n";
+  }
+
+  // ==================== 注释 ====================
+
+  /**
+   * 取出所有在offset之前开始的、还没有输出的注释
+   */
+  private takeCommentsBefore(offset: number | undefined): token.Comment[] {
+    const taken: token.Comment[] = [];
+    if (offset === undefined) {
+      return taken;
+    }
+
+    while (
+      this.nextComment < this.comments.length &&
+      this.comments[this.nextComment].span.start.offset < offset
+    ) {
+      taken.push(this.comments[this.nextComment++]);
+    }
+    return taken;
+  }
+
+  /**
+   * 取出与end在同一行、位于end和limit之间的注释
+   *
+   * @param blockOnly - 只取单行的块注释，遇到行注释时停止，用于后面还有代码的位置
+   */
+  private takeTrailingComments(
+    end: token.Position | undefined,
+    limit: number,
+    blockOnly = false
+  ): token.Comment[] {
+    const taken: token.Comment[] = [];
+    if (end === undefined) {
+      return taken;
+    }
+
+    while (this.nextComment < this.comments.length) {
+      const comment = this.comments[this.nextComment];
+      if (
+        comment.span.start.line !== end.line ||
+        comment.span.start.offset >= limit ||
+        (blockOnly && (comment.kind === "line" || comment.text.includes("\n")))
+      ) {
+        break;
+      }
+      taken.push(comment);
+      this.nextComment++;
+    }
+    return taken;
+  }
+
+  /**
+   * 判断范围内是否有还没有输出的注释
+   */
+  private hasCommentsIn(span: token.Span | undefined): boolean {
+    if (span === undefined) {
+      return false;
+    }
+    return this.comments
+      .slice(this.nextComment)
+      .some(
+        (c) =>
+          c.span.start.offset >= span.start.offset &&
+          c.span.start.offset < span.end.offset
+      );
+  }
+
+  /**
+   * 输出一条注释
+   * 行注释和跨行的块注释之后必须换行
+   */
+  private printComment(comment: token.Comment): Doc {
+    if (comment.kind === "line" || comment.text.includes("\n")) {
+      return [comment.text, breakParent];
+    }
+    return comment.text;
+  }
+
+  /**
+   * 输出放在语句或元素后面的注释，前面加一个空格
+   */
+  private printTrailingComments(comments: token.Comment[]): Doc {
+    if (comments.length === 0) {
+      return "";
+    }
+    return [" ", join(" ", comments.map((c) => this.printComment(c)))];
+  }
+
+  // ==================== 语句 ====================
+
+  /**
+   * 输出语句列表，语句之间换行，并输出语句周围的注释
+   *
+   * @param statements - 语句列表
+   * @param end - 列表结束的位置，在此之前剩下的注释放在最后一条语句之后
+   * @param inBlock - 是否是代码块中的语句，代码块的最后一个表达式语句不加分号
+   */
+  private printStatements(
+    statements: ast.Statement[],
+    end: number,
+    inBlock: boolean
+  ): Doc[] {
+    const parts: Doc[] = [];
+    let prevLine: number | undefined;   // 上一项结束的行号
+
+    // 在两项之间换行，原来有空行时保留一个空行
+    const separate = (startLine: number | undefined) => {
+      if (parts.length === 0) {
+        return;
+      }
+      parts.push(hardline);
+      if (
+        this.options.preserveBlankLines &&
+        prevLine !== undefined &&
+        startLine !== undefined &&
+        startLine - prevLine > 1
+      ) {
+        parts.push(hardline);
+      }
+    };
+
+    statements.forEach((stmt, i) => {
+      for (const comment of this.takeCommentsBefore(stmt.span?.start.offset)) {
+        separate(comment.span.start.line);
+        parts.push(this.printComment(comment));
+        prevLine = comment.span.end.line;
+      }
+
+      const isLast = i === statements.length - 1;
+      const doc = this.printStatement(stmt, inBlock && isLast, statements[i + 1]);
+
+      // 语句内部没有挂到任何位置上的注释，移到语句前面
+      const inner = this.takeCommentsBefore(stmt.span?.end.offset);
+      const trailing = this.takeTrailingComments(stmt.span?.end, end);
+
+      separate(stmt.span?.start.line);
+      for (const comment of inner) {
+        parts.push(this.printComment(comment), hardline);
+      }
+      parts.push(doc, this.printTrailingComments(trailing));
+
+      prevLine = trailing.length > 0
+        ? trailing[trailing.length - 1].span.end.line
+        : stmt.span?.end.line;
+    });
+
+    for (const comment of this.takeCommentsBefore(end)) {
+      separate(comment.span.start.line);
+      parts.push(this.printComment(comment));
+      prevLine = comment.span.end.line;
+    }
+
+    return parts;
+  }
+
+  /**
+   * 输出一条语句
+   *
+   * @param isBlockValue - 是否是代码块的最后一条语句
+   * @param next - 下一条语句，用于判断if、match表达式语句之后能否省略分号
+   */
+  private printStatement(
+    stmt: ast.Statement,
+    isBlockValue: boolean,
+    next: ast.Statement | undefined
+  ): Doc {
+    if (stmt instanceof ast.LetStatement) {
+      return [
+        "let ",
+        this.printBindingTarget(stmt.name),
+        " = ",
+        this.printExpression(stmt.value),
+        ";",
+      ];
+    }
+
+    if (stmt instanceof ast.ReturnStatement) {
+      return ["return ", this.printExpression(stmt.returnValue), ";"];
+    }
+
+    if (stmt instanceof ast.ExpressionStatement) {
+      const semicolon = this.needsSemicolon(stmt, isBlockValue, next);
+      return [this.printExpression(stmt.expression), semicolon ? ";" : ""];
+    }
+
+    if (stmt instanceof ast.WhileStatement) {
+      return [
+        "while ",
+        this.printCondition(stmt.condition),
+        " ",
+        this.printBlock(stmt.body, false),
+      ];
+    }
+
+    if (stmt instanceof ast.ForInStatement) {
+      return [
+        "for (",
+        stmt.variable.value,
+        " in ",
+        this.printExpression(stmt.iterable),
+        ") ",
+        this.printBlock(stmt.body, false),
+      ];
+    }
+
+    if (stmt instanceof ast.BlockStatement) {
+      return this.printBlock(stmt, false);
+    }
+
+    if (stmt instanceof ast.BreakStatement) {
+      return "break;";
+    }
+
+    if (stmt instanceof ast.ContinueStatement) {
+      return "continue;";
+    }
+
+    return stmt.toString();
+  }
+
+  /**
+   * 判断表达式语句后面是否要加分号
+   *
+   * 代码块的最后一条语句是代码块的值，不加分号；
+   * 以 } 结尾的if、match表达式后面通常也不加，
+   * 除非下一条语句以 (、[、- 这类也能作为中缀运算符的Token开头，
+   * 省略分号会让两条语句被解析为一个表达式
+   */
+  private needsSemicolon(
+    stmt: ast.ExpressionStatement,
+    isBlockValue: boolean,
+    next: ast.Statement | undefined
+  ): boolean {
+    if (isBlockValue) {
+      return false;
+    }
+
+    if (
+      stmt.expression instanceof ast.IfExpression ||
+      stmt.expression instanceof ast.MatchExpression
+    ) {
+      return (
+        next instanceof ast.ExpressionStatement &&
+        startsWithInfixOperator(next.expression)
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * 输出代码块
+   *
+   * @param allowFlat - 只有一条简单语句时是否允许排在一行，例如 fn(x) { x * 2 }
+   */
+  private printBlock(block: ast.BlockStatement, allowFlat: boolean): Doc {
+    const { doc, flat } = this.printBlockBody(block);
+    return group(doc, !(allowFlat && flat));
+  }
+
+  /**
+   * 输出代码块的内容，由调用方放到group中决定是否换行
+   *
+   * @returns 代码块的Doc，以及它能否排在一行
+   */
+  private printBlockBody(block: ast.BlockStatement): { doc: Doc; flat: boolean } {
+    const end = block.span?.end.offset ?? -Infinity;
+    const body = this.printStatements(block.statements, end, true);
+
+    if (body.length === 0) {
+      return { doc: "{}", flat: true };
+    }
+
+    const only = block.statements.length === 1 ? block.statements[0] : null;
+    const flat =
+      only !== null &&
+      !(only instanceof ast.LetStatement) &&
+      !(only instanceof ast.WhileStatement) &&
+      !(only instanceof ast.ForInStatement);
+
+    return { doc: ["{", indent([line, body]), line, "}"], flat };
+  }
+
+  // ==================== 表达式 ====================
+
+  /**
+   * 输出表达式，表达式之前还没有输出的注释放在它前面
+   */
+  private printExpression(expr: ast.Expression): Doc {
+    const leading = this.takeCommentsBefore(expr.span?.start.offset);
+    const doc = this.printExpressionWithoutComments(expr);
+    if (leading.length === 0) {
+      return doc;
+    }
+    return [
+      ...leading.map((comment) => [
+        this.printComment(comment),
+        comment.kind === "line" ? hardline : " ",
+      ]),
+      doc,
+    ];
+  }
+
+  /**
+   * 输出表达式本身
+   */
+  private printExpressionWithoutComments(expr: ast.Expression): Doc {
+    if (expr instanceof ast.Identifier) {
+      return expr.value;
+    }
+
+    if (
+      expr instanceof ast.IntegerLiteral ||
+      expr instanceof ast.FloatLiteral ||
+      expr instanceof ast.StringLiteral ||
+      expr instanceof ast.BooleanLiteral
+    ) {
+      return expr.toString();
+    }
+
+    if (expr instanceof ast.InterpolatedString) {
+      return this.printInterpolatedString(expr);
+    }
+
+    if (expr instanceof ast.ArrayLiteral) {
+      return this.printList(
+        "[",
+        "]",
+        expr.elements.map((el) => ({
+          print: () => this.printExpression(el),
+          span: el.span,
+        })),
+        expr.span?.end.offset,
+        true
+      );
+    }
+
+    if (expr instanceof ast.HashLiteral) {
+      const pairs = Array.from(expr.pairs, ([key, value]) => ({
+        print: () => [
+          this.printExpression(key),
+          ": ",
+          this.printExpression(value),
+        ],
+        span: spanBetween(key, value),
+      }));
+      return this.printList("{", "}", pairs, expr.span?.end.offset, true);
+    }
+
+    if (expr instanceof ast.PrefixExpression) {
+      return [
+        expr.operator,
+        this.printOperand(expr.right, Precedence.PREFIX, "right", true),
+      ];
+    }
+
+    if (expr instanceof ast.InfixExpression) {
+      return this.printInfix(expr, true);
+    }
+
+    if (expr instanceof ast.AssignExpression) {
+      return [
+        this.printOperand(expr.target, Precedence.ASSIGN, "left", true),
+        " ",
+        expr.operator,
+        " ",
+        this.printOperand(expr.value, Precedence.ASSIGN, "right", true),
+      ];
+    }
+
+    if (expr instanceof ast.IfExpression) {
+      return this.printIf(expr);
+    }
+
+    if (expr instanceof ast.FunctionLiteral) {
+      return [
+        expr.tokenLiteral(),
+        this.printParameters(expr.parameters, expr.body),
+        " ",
+        this.printBlock(expr.body, true),
+      ];
+    }
+
+    if (expr instanceof ast.MacroLiteral) {
+      return [
+        expr.tokenLiteral(),
+        this.printParameters(expr.parameters, expr.body),
+        " ",
+        this.printBlock(expr.body, true),
+      ];
+    }
+
+    if (expr instanceof ast.CallExpression) {
+      return [
+        this.printOperand(expr.func, Precedence.CALL, "left", false),
+        this.printArguments(expr),
+      ];
+    }
+
+    if (expr instanceof ast.IndexExpression) {
+      return [
+        this.printOperand(expr.left, Precedence.INDEX, "left", false),
+        "[",
+        this.printExpression(expr.index),
+        "]",
+      ];
+    }
+
+    if (expr instanceof ast.MatchExpression) {
+      return this.printMatch(expr);
+    }
+
+    return expr.toString();
+  }
+
+  /**
+   * 输出运算符的操作数，必要时加上括号
+   *
+   * @param side - 操作数在运算符的哪一侧
+   * @param rightAssoc - 运算符是否右结合
+   */
+  private printOperand(
+    operand: ast.Expression,
+    precedence: number,
+    side: "left" | "right",
+    rightAssoc: boolean
+  ): Doc {
+    const doc = this.printExpression(operand);
+    return needsParens(operand, precedence, side, rightAssoc)
+      ? ["(", doc, ")"]
+      : doc;
+  }
+
+  /**
+   * 输出中缀表达式
+   *
+   * 同一优先级的左结合运算符链（如 a + b - c）整体排版，放不下时在每个运算符之后换行
+   *
+   * @param indentRest - 换行之后是否缩进，在if、while条件的括号中不需要额外缩进
+   */
+  private printInfix(expr: ast.InfixExpression, indentRest: boolean): Doc {
+    const precedence = precedenceOf(expr);
+    const rightAssoc = expr.token.Type === token.POWER;
+
+    const chain: ast.InfixExpression[] = [];
+    let left: ast.Expression = expr;
+    while (
+      left instanceof ast.InfixExpression &&
+      precedenceOf(left) === precedence &&
+      (left === expr || !rightAssoc)
+    ) {
+      chain.unshift(left);
+      left = left.left;
+    }
+
+    // 按源代码的顺序输出，注释才能挂到相邻的操作数上
+    const first = [
+      this.printOperand(left, precedence, "left", rightAssoc),
+      this.printOperatorComments(left, chain[0]),
+    ];
+    const rest = chain.map((infix, i) => [
+      " ",
+      infix.operator,
+      line,
+      this.printOperand(infix.right, precedence, "right", rightAssoc),
+      this.printOperatorComments(infix.right, chain[i + 1]),
+    ]);
+    return group([first, indentRest ? indent(rest) : rest]);
+  }
+
+  /**
+   * 输出操作数和下一个运算符之间的块注释，放在操作数后面
+   * 行注释留给下一个操作数，放在运算符之后
+   */
+  private printOperatorComments(
+    operand: ast.Expression,
+    next: ast.InfixExpression | undefined
+  ): Doc {
+    const operatorOffset = next?.token.Span?.start.offset;
+    if (operatorOffset === undefined) {
+      return "";
+    }
+    const comments = this.takeTrailingComments(
+      operand.span?.end,
+      operatorOffset,
+      true
+    );
+    return this.printTrailingComments(comments);
+  }
+
+  /**
+   * 输出if、while的条件，放不下时括号内的条件单独占行
+   */
+  private printCondition(condition: ast.Expression): Doc {
+    const doc =
+      condition instanceof ast.InfixExpression
+        ? this.printInfix(condition, false)
+        : this.printExpression(condition);
+    return group(["(", indent([softline, doc]), softline, ")"]);
+  }
+
+  /**
+   * 输出if表达式，else if链依次排在else后面
+   *
+   * 整个链中的代码块作为一组：只要有一个代码块需要换行，所有代码块都换行
+   */
+  private printIf(expr: ast.IfExpression): Doc {
+    const parts: Doc[] = [];
+    let flat = true;
+    let current: ast.IfExpression | undefined = expr;
+
+    while (current) {
+      const consequence = this.printBlockBody(current.consequence);
+      parts.push(
+        "if ",
+        this.printCondition(current.condition),
+        " ",
+        consequence.doc
+      );
+      flat = flat && consequence.flat;
+
+      const alternative: ast.BlockStatement | ast.IfExpression | undefined =
+        current.alternative;
+      current = undefined;
+
+      if (alternative) {
+        // 代码块和else之间的注释放在 } 后面，不移到下一个代码块中
+        const comments = this.takeCommentsBefore(
+          alternative.span?.start.offset
+        );
+        parts.push(this.printTrailingComments(comments));
+        if (comments.length > 0) {
+          flat = false;
+        }
+        const newline = comments.some(
+          (c) => c.kind === "line" || c.text.includes("\n")
+        );
+        parts.push(newline ? [hardline, "else "] : " else ");
+      }
+
+      if (alternative instanceof ast.IfExpression) {
+        current = alternative;
+      } else if (alternative) {
+        const block = this.printBlockBody(alternative);
+        parts.push(block.doc);
+        flat = flat && block.flat;
+      }
+    }
+
+    return group(parts, !flat);
+  }
+
+  /**
+   * 输出带插值的字符串，插值中的表达式总是排在一行
+   */
+  private printInterpolatedString(expr: ast.InterpolatedString): Doc {
+    let out = '"' + ast.escapeString(expr.strings[0] ?? "");
+    expr.expressions.forEach((exp, i) => {
+      const inner = printDoc(this.printExpression(exp), {
+        ...this.options,
+        lineWidth: Infinity,
+      });
+      out += "${" + inner + "}" + ast.escapeString(expr.strings[i + 1] ?? "");
+    });
+    return out + '"';
+  }
+
+  /**
+   * 输出函数调用的参数列表
+   *
+   * 最后一个参数是函数字面量这类以代码块结尾的表达式时（如 map(arr, fn(x) { ... })），
+   * 参数列表不拆开，只让代码块换行
+   */
+  private printArguments(call: ast.CallExpression): Doc {
+    const last = call.args[call.args.length - 1];
+    const endsWithBlock =
+      last instanceof ast.FunctionLiteral ||
+      last instanceof ast.MacroLiteral ||
+      last instanceof ast.IfExpression ||
+      last instanceof ast.MatchExpression;
+    if (endsWithBlock && !this.hasCommentsIn(call.span)) {
+      const args = call.args.map((arg) => this.printExpression(arg));
+      return ["(", join(", ", args), ")"];
+    }
+
+    return this.printList(
+      "(",
+      ")",
+      call.args.map((arg) => ({
+        print: () => this.printExpression(arg),
+        span: arg.span,
+      })),
+      call.span?.end.offset,
+      true
+    );
+  }
+
+  /**
+   * 输出函数或宏的参数列表，列表在函数体的 { 之前结束
+   */
+  private printParameters(
+    parameters: ast.BindingTarget[],
+    body: ast.BlockStatement
+  ): Doc {
+    const items = parameters.map((param) => ({
+      print: () => this.printBindingTarget(param),
+      span: param.span,
+    }));
+    return this.printList("(", ")", items, body.span?.start.offset, true);
+  }
+
+  /**
+   * 输出用逗号分隔的列表，放不下时每项一行
+   *
+   * @param items - 列表项及其源代码范围，列表项在它前面的注释输出之后才输出
+   * @param endOffset - 列表结束的位置，在此之前剩下的注释放在最后一项之后
+   * @param trailingComma - 最后一项之后能否加逗号
+   */
+  private printList(
+    open: string,
+    close: string,
+    items: ListItem[],
+    endOffset: number | undefined,
+    trailingComma: boolean
+  ): Doc {
+    const end = endOffset ?? -Infinity;
+    const parts: Doc[] = [];
+
+    items.forEach((item, i) => {
+      for (const comment of this.takeCommentsBefore(item.span?.start.offset)) {
+        parts.push(
+          this.printComment(comment),
+          comment.kind === "line" ? line : " "
+        );
+      }
+
+      const isLast = i === items.length - 1;
+      parts.push(item.print());
+      if (!isLast) {
+        parts.push(",");
+      } else if (trailingComma && this.options.trailingComma) {
+        parts.push(ifBreak(","));
+      }
+
+      const limit = isLast ? end : items[i + 1].span?.start.offset ?? end;
+      const trailing = this.takeTrailingComments(item.span?.end, limit);
+      parts.push(this.printTrailingComments(trailing));
+
+      if (!isLast) {
+        parts.push(line);
+      }
+    });
+
+    const dangling = this.takeCommentsBefore(end);
+    dangling.forEach((comment, i) => {
+      if (parts.length > 0 || i > 0) {
+        parts.push(line);
+      }
+      parts.push(this.printComment(comment));
+    });
+
+    if (parts.length === 0) {
+      return open + close;
+    }
+
+    return group([open, indent([softline, parts]), softline, close]);
+  }
+
+  // ==================== 模式匹配 ====================
+
+  /**
+   * 输出match表达式，每个分支占一行
+   */
+  private printMatch(expr: ast.MatchExpression): Doc {
+    const head = ["match (", this.printExpression(expr.subject), ") "];
+    const end = expr.span?.end.offset ?? -Infinity;
+    const parts: Doc[] = [];
+
+    expr.arms.forEach((arm, i) => {
+      for (const comment of this.takeCommentsBefore(arm.span?.start.offset)) {
+        parts.push(this.printComment(comment), hardline);
+      }
+
+      const isLast = i === expr.arms.length - 1;
+      parts.push(this.printMatchArm(arm));
+      if (!isLast || this.options.trailingComma) {
+        parts.push(",");
+      }
+
+      const limit = isLast ? end : expr.arms[i + 1].span?.start.offset ?? end;
+      const trailing = this.takeTrailingComments(arm.span?.end, limit);
+      parts.push(this.printTrailingComments(trailing));
+
+      if (!isLast) {
+        parts.push(hardline);
+      }
+    });
+
+    for (const comment of this.takeCommentsBefore(end)) {
+      if (parts.length > 0) {
+        parts.push(hardline);
+      }
+      parts.push(this.printComment(comment));
+    }
+
+    if (parts.length === 0) {
+      return [head, "{}"];
+    }
+
+    return [head, "{", indent([hardline, parts]), hardline, "}"];
+  }
+
+  /**
+   * 输出match表达式的一个分支
+   */
+  private printMatchArm(arm: ast.MatchArm): Doc {
+    return [
+      this.printPattern(arm.pattern),
+      arm.guard ? [" if ", this.printExpression(arm.guard)] : "",
+      " => ",
+      this.printExpression(arm.body),
+    ];
+  }
+
+  /**
+   * 输出let语句或函数参数中的绑定目标
+   */
+  private printBindingTarget(target: ast.BindingTarget): Doc {
+    if (target instanceof ast.Identifier) {
+      return target.value;
+    }
+    return this.printPattern(target);
+  }
+
+  /**
+   * 输出模式
+   */
+  private printPattern(pattern: ast.Pattern): Doc {
+    if (pattern instanceof ast.ArrayPattern) {
+      const items: ListItem[] = pattern.elements.map((el) => ({
+        print: () => this.printPattern(el),
+        span: el.span,
+      }));
+      const rest = pattern.rest;
+      if (rest) {
+        items.push({ print: () => "..." + rest.value, span: rest.span });
+      }
+      // ...rest之后不能有逗号
+      const end = pattern.span?.end.offset;
+      return this.printList("[", "]", items, end, !pattern.rest);
+    }
+
+    if (pattern instanceof ast.HashPattern) {
+      const pairs = Array.from(pattern.pairs, ([key, value]) => ({
+        print: () => [
+          this.printExpression(key),
+          ": ",
+          this.printPattern(value),
+        ],
+        span: spanBetween(key, value),
+      }));
+      return this.printList("{", "}", pairs, pattern.span?.end.offset, true);
+    }
+
+    return pattern.toString();
+  }
+}
+
+/**
+ * printList的列表项
+ * print在列表项之前的注释输出之后才调用，保证注释按源代码的顺序取出
+ */
+interface ListItem {
+  print: () => Doc;
+  span?: token.Span;
+}
+
+/**
+ * 获取表达式的优先级，用于判断作为操作数时是否需要括号
+ */
+function precedenceOf(expr: ast.Expression): number {
+  if (expr instanceof ast.InfixExpression) {
+    return lookupPrecedence(expr.token.Type);
+  }
+  if (expr instanceof ast.AssignExpression) {
+    return Precedence.ASSIGN;
+  }
+  if (expr instanceof ast.PrefixExpression) {
+    return Precedence.PREFIX;
+  }
+  return PRIMARY;
+}
+
+/**
+ * 判断作为操作数时是否需要加括号
+ *
+ * 操作数的优先级低于运算符时需要括号；优先级相同时，
+ * 左结合运算符的右操作数、右结合运算符的左操作数也需要括号
+ */
+function needsParens(
+  operand: ast.Expression,
+  precedence: number,
+  side: "left" | "right",
+  rightAssoc: boolean
+): boolean {
+  const operandPrecedence = precedenceOf(operand);
+  return (
+    operandPrecedence < precedence ||
+    (operandPrecedence === precedence && (side === "right") !== rightAssoc)
+  );
+}
+
+/**
+ * 判断表达式格式化之后的第一个Token是否也能作为中缀运算符，如 (、[、-
+ */
+function startsWithInfixOperator(expr: ast.Expression): boolean {
+  let left: ast.Expression | null = null;
+  let precedence = PRIMARY;
+  let rightAssoc = false;
+
+  if (expr instanceof ast.InfixExpression) {
+    left = expr.left;
+    precedence = precedenceOf(expr);
+    rightAssoc = expr.token.Type === token.POWER;
+  } else if (expr instanceof ast.AssignExpression) {
+    left = expr.target;
+    precedence = Precedence.ASSIGN;
+    rightAssoc = true;
+  } else if (expr instanceof ast.CallExpression) {
+    left = expr.func;
+    precedence = Precedence.CALL;
+  } else if (expr instanceof ast.IndexExpression) {
+    left = expr.left;
+    precedence = Precedence.INDEX;
+  }
+
+  if (left === null) {
+    return (
+      (expr instanceof ast.PrefixExpression ||
+        expr instanceof ast.ArrayLiteral) &&
+      lookupPrecedence(expr.token.Type) > Precedence.LOWEST
+    );
+  }
+  if (needsParens(left, precedence, "left", rightAssoc)) {
+    return true;
+  }
+  return startsWithInfixOperator(left);
+}
+
+/**
+ * 从节点a的开始到节点b的结束的范围，任一节点没有Span时返回undefined
+ */
+function spanBetween(a: ast.Node, b: ast.Node): token.Span | undefined {
+  if (!a.span || !b.span) {
+    return undefined;
+  }
+  return { start: a.span.start, end: b.span.end };
+}
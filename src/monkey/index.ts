@@ -8,19 +8,44 @@
 import { Lexer as LexerClass } from './lexer/lexer'
 import { Parser as ParserClass } from './parser/parser'
 import { evalNode as evalNodeFunc } from './evaluator/evaluator'
+import { defineMacros, expandMacros } from './evaluator/macro'
 import { Environment as EnvironmentClass } from './object/environment'
+import { ErrorObject as ErrorObjectClass } from './object/object'
+import { formatPosition } from './token/token'
+import { runtimeDiagnostic } from './diagnostic/diagnostic'
+import type { Diagnostic } from './diagnostic/diagnostic'
 
 // ==================== Lexer (词法分析器) ====================
-export { Lexer } from './lexer/lexer'
+export { Lexer, tokenize } from './lexer/lexer'
+export type { LexerOptions, LexerDiagnostic, TokenizeResult } from './lexer/lexer'
 
 // ==================== Token (词法单元) ====================
 export * from './token/token'
 
+// ==================== Diagnostic (诊断信息) ====================
+export * from './diagnostic/diagnostic'
+
 // ==================== AST (抽象语法树) ====================
 export * from './ast/ast'
+export * from './ast/json'
+export * from './ast/visitor'
 
 // ==================== Parser (语法分析器) ====================
-export { Parser } from './parser/parser'
+export {
+  Parser,
+  Precedence,
+  registerPrecedence,
+  registerParserExtension,
+} from './parser/parser'
+export type {
+  PrefixParseFn,
+  InfixParseFn,
+  ParserExtension,
+} from './parser/parser'
+
+// ==================== Formatter (代码格式化) ====================
+export { format, formatProgram } from './formatter/formatter'
+export type { FormatOptions, FormatResult } from './formatter/formatter'
 
 // ==================== Object (对象系统) ====================
 export * from './object/object'
@@ -28,14 +53,17 @@ export * from './object/types'
 export { Environment, newEnclosedEnvironment } from './object/environment'
 
 // ==================== Evaluator (求值器) ====================
-export { evalNode } from './evaluator/evaluator'
+export { evalNode, registerNodeEvaluator } from './evaluator/evaluator'
+export type { NodeEvaluator } from './evaluator/evaluator'
 export { builtins } from './evaluator/builtins'
+export { defineMacros, expandMacros } from './evaluator/macro'
 
 /**
  * 便捷函数：执行 Monkey 代码
  *
  * @param code - Monkey 源代码
  * @param env - 可选的环境，如果不提供则创建新环境
+ * @param macroEnv - 可选的宏环境，多次执行之间需要共享宏定义时传入
  * @returns 执行结果对象
  *
  * @example
@@ -50,15 +78,22 @@ export { builtins } from './evaluator/builtins'
  * } else {
  *   console.error(result.errors)
  * }
+ *
+ * // 结构化的诊断信息，包括警告
+ * for (const d of result.diagnostics) {
+ *   console.log(d.phase, d.code, d.severity, d.span)
+ * }
  * ```
  */
 export function execute(
   code: string,
-  env?: EnvironmentClass
+  env?: EnvironmentClass,
+  macroEnv?: EnvironmentClass
 ): {
   success: boolean
   value: import('./object/object').MonkeyObject | null
   errors: string[]
+  diagnostics: Diagnostic[]
   program: import('./ast/ast').Program | null
 } {
   try {
@@ -69,27 +104,45 @@ export function execute(
     const parser = new ParserClass(lexer)
     const program = parser.parseProgram()
 
-    // 检查解析错误
+    // 词法和语法分析阶段的诊断信息（包括警告）
+    const diagnostics = parser.getDiagnostics()
+
+    // 检查解析错误，此时返回的program是包含错误节点的部分AST
     const parseErrors = parser.getErrors()
     if (parseErrors.length > 0) {
       return {
         success: false,
         value: null,
         errors: parseErrors,
-        program: null,
+        diagnostics,
+        program,
       }
     }
 
-    // 求值
+    // 宏展开：先取出宏定义，再把宏调用替换为展开后的AST
+    const macroEnvironment = macroEnv || new EnvironmentClass()
+    const expanded = expandMacros(
+      defineMacros(program, macroEnvironment),
+      macroEnvironment
+    )
+
+    // 求值，宏展开出错时直接作为运行时错误返回
     const environment = env || new EnvironmentClass()
-    const evaluated = evalNodeFunc(program, environment)
+    const evaluated =
+      expanded instanceof ErrorObjectClass
+        ? expanded
+        : evalNodeFunc(expanded, environment)
 
-    // 检查运行时错误
-    if (evaluated && evaluated.type() === 'ERROR') {
+    // 检查运行时错误，有位置信息时以 "行:列: " 开头
+    if (evaluated instanceof ErrorObjectClass) {
+      const position = evaluated.span
+        ? `${formatPosition(evaluated.span.start)}: `
+        : ''
       return {
         success: false,
         value: evaluated,
-        errors: [evaluated.inspect()],
+        errors: [position + evaluated.inspect()],
+        diagnostics: [...diagnostics, runtimeDiagnostic(evaluated)],
         program,
       }
     }
@@ -98,13 +151,25 @@ export function execute(
       success: true,
       value: evaluated,
       errors: [],
+      diagnostics,
       program,
     }
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
     return {
       success: false,
       value: null,
-      errors: [error instanceof Error ? error.message : String(error)],
+      errors: [message],
+      diagnostics: [
+        {
+          code: 'internal-error',
+          severity: 'error',
+          phase: 'runtime',
+          message,
+          related: [],
+          hints: [],
+        },
+      ],
       program: null,
     }
   }
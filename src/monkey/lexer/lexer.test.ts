@@ -4,11 +4,17 @@
  * 测试词法分析器是否能正确识别各种Token
  */
 
-import { describe, it, expect } from "vitest";
-import { Lexer } from "./lexer";
+import { describe, it, expect, afterEach } from "vitest";
+import { Lexer, tokenize } from "./lexer";
 import * as token from "../token/token";
 
 describe("Lexer", () => {
+  // 注册的运算符和关键字是全局的，每个测试结束后取消注册，避免影响其他测试
+  const unregisters: (() => void)[] = [];
+  afterEach(() => {
+    unregisters.splice(0).reverse().forEach((unregister) => unregister());
+  });
+
   it("应该正确识别各种Token", () => {
     // 测试输入：包含Monkey语言的各种语法元素
     const input = `let five = 5;
@@ -19,7 +25,7 @@ let add = fn(x, y) {
 };
 
 let result = add(five, ten);
-!-/*5;
+!-/ *5;
 5 < 10 > 5;
 
 if (5 < 10) {
@@ -140,5 +146,589 @@ if (5 < 10) {
       expect(tok.Literal).toBe(tests[i].expectedLiteral);
     }
   });
-});
 
+  it("应该为Token记录起止位置", () => {
+    const input = `let x = "ab";
+  x == 10`;
+
+    // 期望的位置：[起始行, 起始列, 起始偏移, 结束行, 结束列, 结束偏移]
+    const tests: Array<[string, number[]]> = [
+      ["let", [1, 1, 0, 1, 4, 3]],
+      ["x", [1, 5, 4, 1, 6, 5]],
+      ["=", [1, 7, 6, 1, 8, 7]],
+      ["ab", [1, 9, 8, 1, 13, 12]],
+      [";", [1, 13, 12, 1, 14, 13]],
+      ["x", [2, 3, 16, 2, 4, 17]],
+      ["==", [2, 5, 18, 2, 7, 20]],
+      ["10", [2, 8, 21, 2, 10, 23]],
+      ["", [2, 10, 23, 2, 10, 23]],
+    ];
+
+    const lexer = new Lexer(input);
+
+    for (const [literal, expected] of tests) {
+      const tok = lexer.nextToken();
+      expect(tok.Literal).toBe(literal);
+
+      const { start, end } = tok.Span!;
+      expect([
+        start.line, start.column, start.offset,
+        end.line, end.column, end.offset,
+      ]).toEqual(expected);
+    }
+  });
+
+  it("应该跳过行注释和块注释", () => {
+    const input = `// 行注释
+let x = 5; // 行尾注释
+/* 块注释
+   可以跨行 */ x / 2 /**/`;
+
+    const expected = ["let", "x", "=", "5", ";", "x", "/", "2", ""];
+
+    const lexer = new Lexer(input);
+    for (const literal of expected) {
+      expect(lexer.nextToken().Literal).toBe(literal);
+    }
+
+    expect(lexer.getDiagnostics()).toEqual([]);
+  });
+
+  it("应该报告未闭合的块注释", () => {
+    const lexer = new Lexer("let x = 1; /* 没有结尾");
+
+    let tok = lexer.nextToken();
+    while (tok.Type !== token.EOF) {
+      tok = lexer.nextToken();
+    }
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe("error");
+    expect(diagnostics[0].message).toBe("unterminated block comment");
+    expect(diagnostics[0].span.start.column).toBe(12);
+  });
+
+  it("块注释中嵌套的 /* 应该产生警告", () => {
+    const lexer = new Lexer("/* a /* b */ c");
+
+    const tok = lexer.nextToken();
+    expect(tok.Type).toBe(token.IDENT);
+    expect(tok.Literal).toBe("c");
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe("warning");
+    expect(diagnostics[0].span.start.column).toBe(6);
+  });
+
+  it("开启keepComments后应该把注释作为trivia挂到Token上", () => {
+    const input = `// 说明
+let x = 1; /* 尾部 */
+// 文件末尾`;
+
+    const lexer = new Lexer(input, { keepComments: true });
+
+    const letTok = lexer.nextToken();
+    expect(letTok.Trivia).toEqual([
+      {
+        kind: "line",
+        text: "// 说明",
+        span: {
+          start: { line: 1, column: 1, offset: 0 },
+          end: { line: 1, column: 6, offset: 5 },
+        },
+      },
+    ]);
+
+    for (let i = 0; i < 4; i++) {
+      expect(lexer.nextToken().Trivia).toBeUndefined();
+    }
+
+    const eof = lexer.nextToken();
+    expect(eof.Type).toBe(token.EOF);
+    expect(eof.Trivia!.map((c) => [c.kind, c.text])).toEqual([
+      ["block", "/* 尾部 */"],
+      ["line", "// 文件末尾"],
+    ]);
+  });
+
+  it("默认情况下不保留注释", () => {
+    const lexer = new Lexer("// 注释\nx");
+    expect(lexer.nextToken().Trivia).toBeUndefined();
+  });
+
+  it("应该解码字符串中的转义序列", () => {
+    const tests = [
+      { input: String.raw`"a\"b"`, expected: 'a"b' },
+      { input: String.raw`"tab\there"`, expected: "tab\there" },
+      { input: String.raw`"line\nbreak\r"`, expected: "line\nbreak\r" },
+      { input: String.raw`"back\\slash"`, expected: "back\\slash" },
+      { input: String.raw`"\x41B\u{43}"`, expected: "ABC" },
+      { input: String.raw`"\u{1F600}"`, expected: "😀" },
+      { input: String.raw`"\0\b\f\v"`, expected: "\0\b\f\v" },
+    ];
+
+    for (const test of tests) {
+      const lexer = new Lexer(test.input);
+      const tok = lexer.nextToken();
+
+      expect(tok.Type).toBe(token.STRING);
+      expect(tok.Literal).toBe(test.expected);
+      expect(lexer.nextToken().Type).toBe(token.EOF);
+      expect(lexer.getDiagnostics()).toEqual([]);
+    }
+  });
+
+  it("应该报告未闭合的字符串", () => {
+    const lexer = new Lexer('let s = "abc;\nlet t = 1;');
+
+    const tokens = [lexer.nextToken(), lexer.nextToken(), lexer.nextToken()];
+    const str = lexer.nextToken();
+    expect(str.Type).toBe(token.STRING);
+    expect(str.Literal).toBe("abc;\nlet t = 1;");
+    expect(str.Span!.end.offset).toBe(24);
+    expect(lexer.nextToken().Type).toBe(token.EOF);
+    expect(tokens.map((t) => t.Literal)).toEqual(["let", "s", "="]);
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].message).toBe("unterminated string literal");
+    expect(diagnostics[0].span.start.column).toBe(9);
+  });
+
+  it("应该报告格式错误的转义序列", () => {
+    const tests = [
+      { input: String.raw`"\q"`, message: "invalid escape sequence '\\q'", end: 3 },
+      { input: String.raw`"\x4"`, message: "invalid \\x escape: expected 2 hex digits", end: 4 },
+      { input: String.raw`"\u12"`, message: "invalid \\u escape: expected 4 hex digits", end: 5 },
+      {
+        input: String.raw`"\u{12"`,
+        message: "invalid \\u{...} escape: expected 1 to 6 hex digits followed by '}'",
+        end: 6,
+      },
+      {
+        input: String.raw`"\u{110000}"`,
+        message: "invalid \\u{...} escape: code point 110000 is out of range",
+        end: 11,
+      },
+    ];
+
+    for (const test of tests) {
+      const lexer = new Lexer(test.input);
+      lexer.nextToken();
+
+      const diagnostics = lexer.getDiagnostics();
+      expect(diagnostics.length).toBe(1);
+      expect(diagnostics[0].severity).toBe("error");
+      expect(diagnostics[0].message).toBe(test.message);
+      expect(diagnostics[0].span.start.offset).toBe(1);
+      expect(diagnostics[0].span.end.offset).toBe(test.end);
+    }
+  });
+
+  it("应该识别浮点数字面量", () => {
+    const input = "3.14 0.5 1e-9 2.5E+3 7 1.x";
+
+    const expected = [
+      { type: token.FLOAT, literal: "3.14" },
+      { type: token.FLOAT, literal: "0.5" },
+      { type: token.FLOAT, literal: "1e-9" },
+      { type: token.FLOAT, literal: "2.5E+3" },
+      { type: token.INT, literal: "7" },
+      // 小数点后没有数字时不属于数字
+      { type: token.INT, literal: "1" },
+      { type: token.ILLEGAL, literal: "." },
+      { type: token.IDENT, literal: "x" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+    expect(lexer.getDiagnostics().map((d) => d.message)).toEqual([
+      "unexpected character '.'",
+    ]);
+  });
+
+  it("应该报告缺少指数数字的浮点数", () => {
+    const lexer = new Lexer("1e+;");
+
+    const tok = lexer.nextToken();
+    expect(tok.Type).toBe(token.ILLEGAL);
+    expect(tok.Literal).toBe("1e+");
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].message).toBe(
+      "malformed number literal '1e+': exponent has no digits"
+    );
+  });
+
+  it("应该识别带进制前缀和下划线分隔符的整数", () => {
+    const input = "0xFF 0b1010 0o755 0XaB_cd 1_000_000 1_0.5_5 0";
+
+    const expected = [
+      { type: token.INT, literal: "0xFF" },
+      { type: token.INT, literal: "0b1010" },
+      { type: token.INT, literal: "0o755" },
+      { type: token.INT, literal: "0XaB_cd" },
+      { type: token.INT, literal: "1_000_000" },
+      { type: token.FLOAT, literal: "1_0.5_5" },
+      { type: token.INT, literal: "0" },
+      { type: token.EOF, literal: "" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+    expect(lexer.getDiagnostics()).toEqual([]);
+  });
+
+  it("应该报告格式错误的整数", () => {
+    const tests = [
+      { input: "0x", message: "malformed number literal '0x': missing digits after base prefix" },
+      { input: "0b_", message: "malformed number literal '0b_': missing digits after base prefix" },
+      { input: "0b102", message: "malformed number literal '0b102': invalid digit '2' in binary literal" },
+      { input: "0o78", message: "malformed number literal '0o78': invalid digit '8' in octal literal" },
+      { input: "0xFG", message: "malformed number literal '0xFG': invalid digit 'G' in hexadecimal literal" },
+      { input: "1__0", message: "malformed number literal '1__0': '_' must separate digits" },
+      { input: "100_", message: "malformed number literal '100_': '_' must separate digits" },
+      { input: "0x_FF", message: "malformed number literal '0x_FF': '_' must separate digits" },
+      { input: "1_.5", message: "malformed number literal '1_.5': '_' must separate digits" },
+    ];
+
+    for (const test of tests) {
+      const lexer = new Lexer(test.input);
+      const tok = lexer.nextToken();
+
+      expect(tok.Type).toBe(token.ILLEGAL);
+      expect(lexer.getDiagnostics().map((d) => d.message)).toEqual([test.message]);
+    }
+  });
+
+  it("应该报告无法识别的字符", () => {
+    const lexer = new Lexer("let # = 1;");
+
+    lexer.nextToken();
+    const tok = lexer.nextToken();
+    expect(tok.Type).toBe(token.ILLEGAL);
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].message).toBe("unexpected character '#'");
+    expect(diagnostics[0].span.start.offset).toBe(4);
+    expect(diagnostics[0].span.end.offset).toBe(5);
+  });
+
+  it("标识符应该可以包含数字和Unicode字符", () => {
+    const input = "let user2 = x1 + 总数 + _tmp_3 + café + 𝑥;";
+
+    const expected = [
+      { type: token.LET, literal: "let" },
+      { type: token.IDENT, literal: "user2" },
+      { type: token.ASSIGN, literal: "=" },
+      { type: token.IDENT, literal: "x1" },
+      { type: token.PLUS, literal: "+" },
+      { type: token.IDENT, literal: "总数" },
+      { type: token.PLUS, literal: "+" },
+      { type: token.IDENT, literal: "_tmp_3" },
+      { type: token.PLUS, literal: "+" },
+      { type: token.IDENT, literal: "café" },
+      { type: token.PLUS, literal: "+" },
+      { type: token.IDENT, literal: "𝑥" },
+      { type: token.SEMICOLON, literal: ";" },
+      { type: token.EOF, literal: "" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+    expect(lexer.getDiagnostics()).toEqual([]);
+  });
+
+  it("标识符不能以数字开头", () => {
+    const lexer = new Lexer("2x");
+
+    expect(lexer.nextToken()).toMatchObject({ Type: token.INT, Literal: "2" });
+    expect(lexer.nextToken()).toMatchObject({ Type: token.IDENT, Literal: "x" });
+  });
+
+  it("列号应该按Unicode字符计数", () => {
+    const lexer = new Lexer("𝑥 = 总数");
+
+    const x = lexer.nextToken();
+    expect(x.Span!.end).toEqual({ line: 1, column: 2, offset: 2 });
+
+    const assign = lexer.nextToken();
+    expect(assign.Span!.start).toEqual({ line: 1, column: 3, offset: 3 });
+
+    const ident = lexer.nextToken();
+    expect(ident.Span!.start).toEqual({ line: 1, column: 5, offset: 5 });
+    expect(ident.Span!.end).toEqual({ line: 1, column: 7, offset: 7 });
+  });
+
+  it("应该识别比较和逻辑运算符", () => {
+    const input = "a <= b >= c && d || !e < f";
+
+    const expected = [
+      { type: token.IDENT, literal: "a" },
+      { type: token.LT_EQ, literal: "<=" },
+      { type: token.IDENT, literal: "b" },
+      { type: token.GT_EQ, literal: ">=" },
+      { type: token.IDENT, literal: "c" },
+      { type: token.AND, literal: "&&" },
+      { type: token.IDENT, literal: "d" },
+      { type: token.OR, literal: "||" },
+      { type: token.BANG, literal: "!" },
+      { type: token.IDENT, literal: "e" },
+      { type: token.LT, literal: "<" },
+      { type: token.IDENT, literal: "f" },
+      { type: token.EOF, literal: "" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+  });
+
+  it("应该识别取模、幂和位运算符", () => {
+    const input = "a % b ** c & d | e ^ ~f << g >> h";
+
+    const expected = [
+      { type: token.IDENT, literal: "a" },
+      { type: token.PERCENT, literal: "%" },
+      { type: token.IDENT, literal: "b" },
+      { type: token.POWER, literal: "**" },
+      { type: token.IDENT, literal: "c" },
+      { type: token.BIT_AND, literal: "&" },
+      { type: token.IDENT, literal: "d" },
+      { type: token.BIT_OR, literal: "|" },
+      { type: token.IDENT, literal: "e" },
+      { type: token.BIT_XOR, literal: "^" },
+      { type: token.TILDE, literal: "~" },
+      { type: token.IDENT, literal: "f" },
+      { type: token.SHL, literal: "<<" },
+      { type: token.IDENT, literal: "g" },
+      { type: token.SHR, literal: ">>" },
+      { type: token.IDENT, literal: "h" },
+      { type: token.EOF, literal: "" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+  });
+
+  it("应该把插值字符串拆分为多个片段", () => {
+    const input = '"Hi, ${name}! ${ {"a": 1}["a"] } \\${x}" "${"in${1}"}"';
+
+    const expected = [
+      { type: token.TEMPLATE_HEAD, literal: "Hi, " },
+      { type: token.IDENT, literal: "name" },
+      { type: token.TEMPLATE_MIDDLE, literal: "! " },
+      { type: token.LBRACE, literal: "{" },
+      { type: token.STRING, literal: "a" },
+      { type: token.COLON, literal: ":" },
+      { type: token.INT, literal: "1" },
+      { type: token.RBRACE, literal: "}" },
+      { type: token.LBRACKET, literal: "[" },
+      { type: token.STRING, literal: "a" },
+      { type: token.RBRACKET, literal: "]" },
+      { type: token.TEMPLATE_TAIL, literal: " ${x}" },
+      { type: token.TEMPLATE_HEAD, literal: "" },
+      { type: token.TEMPLATE_HEAD, literal: "in" },
+      { type: token.INT, literal: "1" },
+      { type: token.TEMPLATE_TAIL, literal: "" },
+      { type: token.TEMPLATE_TAIL, literal: "" },
+      { type: token.EOF, literal: "" },
+    ];
+
+    const lexer = new Lexer(input);
+    for (const test of expected) {
+      const tok = lexer.nextToken();
+      expect(tok.Type).toBe(test.type);
+      expect(tok.Literal).toBe(test.literal);
+    }
+    expect(lexer.getDiagnostics()).toEqual([]);
+  });
+
+  it("应该报告未结束的字符串插值", () => {
+    const lexer = new Lexer('"a${x');
+
+    expect(lexer.nextToken().Type).toBe(token.TEMPLATE_HEAD);
+    expect(lexer.nextToken().Type).toBe(token.IDENT);
+    expect(lexer.nextToken().Type).toBe(token.EOF);
+    expect(lexer.nextToken().Type).toBe(token.EOF);
+
+    const diagnostics = lexer.getDiagnostics();
+    expect(diagnostics.map((d) => d.message)).toEqual(["unterminated string interpolation"]);
+    expect(diagnostics[0].span.start.offset).toBe(0);
+    expect(diagnostics[0].span.end.offset).toBe(5);
+  });
+
+  it("tokenize应该返回全部Token和诊断信息", () => {
+    const { tokens, diagnostics } = tokenize("let x = 5 # 1;");
+
+    expect(tokens.map((t) => t.Type)).toEqual([
+      token.LET,
+      token.IDENT,
+      token.ASSIGN,
+      token.INT,
+      token.ILLEGAL,
+      token.INT,
+      token.SEMICOLON,
+      token.EOF,
+    ]);
+    expect(tokens.every((t) => t.Span !== undefined)).toBe(true);
+    expect(tokens[4].Span?.start.offset).toBe(10);
+
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe("error");
+    expect(diagnostics[0].message).toBe("unexpected character '#'");
+  });
+
+  it("tokenize应该支持Lexer选项", () => {
+    const { tokens } = tokenize("// 注释\nx", { keepComments: true });
+
+    expect(tokens[0].Type).toBe(token.IDENT);
+    expect(tokens[0].Trivia?.map((c) => c.text)).toEqual(["// 注释"]);
+  });
+
+  it("Lexer应该可以用for...of遍历，最后一个Token是EOF", () => {
+    const lexer = new Lexer("a + b");
+    const types: token.TokenType[] = [];
+
+    for (const tok of lexer) {
+      types.push(tok.Type);
+    }
+
+    expect(types).toEqual([token.IDENT, token.PLUS, token.IDENT, token.EOF]);
+    expect(tokenize("").tokens.map((t) => t.Type)).toEqual([token.EOF]);
+  });
+
+  it("词法诊断信息应该带有错误码、阶段和修复建议", () => {
+    const { diagnostics } = tokenize('/* a /* b */ "abc');
+
+    expect(diagnostics.map((d) => [d.code, d.severity, d.phase])).toEqual([
+      ["nested-block-comment", "warning", "lex"],
+      ["unterminated-string", "error", "lex"],
+    ]);
+    expect(diagnostics[1].hints).toEqual(["add a closing '\"'"]);
+    expect(diagnostics[1].related).toEqual([]);
+  });
+
+  it("应该识别while、for和in关键字", () => {
+    const { tokens } = tokenize("while for in index");
+
+    expect(tokens.map((t) => t.Type)).toEqual([
+      token.WHILE,
+      token.FOR,
+      token.IN,
+      token.IDENT,
+      token.EOF,
+    ]);
+  });
+
+  it("应该识别赋值和复合赋值运算符", () => {
+    const { tokens } = tokenize("x = 1; x += 2 -= 3 *= 4 /= 5 ** 6");
+
+    expect(tokens.map((t) => t.Literal)).toEqual([
+      "x", "=", "1", ";",
+      "x", "+=", "2", "-=", "3", "*=", "4", "/=", "5", "**", "6", "",
+    ]);
+    expect(tokens[5].Type).toBe(token.PLUS_ASSIGN);
+    expect(tokens[9].Type).toBe(token.ASTERISK_ASSIGN);
+  });
+
+  it("应该识别match关键字、=> 和 ...", () => {
+    const { tokens, diagnostics } = tokenize("match [a, ...b] => x == y . z");
+
+    expect(tokens.map((t) => t.Type)).toEqual([
+      token.MATCH,
+      token.LBRACKET,
+      token.IDENT,
+      token.COMMA,
+      token.ELLIPSIS,
+      token.IDENT,
+      token.RBRACKET,
+      token.ARROW,
+      token.IDENT,
+      token.EQ,
+      token.IDENT,
+      token.ILLEGAL,
+      token.IDENT,
+      token.EOF,
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "unexpected character '.'",
+    ]);
+  });
+
+  it("应该识别注册的自定义运算符和关键字", () => {
+    unregisters.push(
+      token.registerOperator("<=>", "SPACESHIP"),
+      token.registerOperator("<~", "LEFT_SQUIGGLE"),
+      token.registerKeyword("unless", "UNLESS")
+    );
+
+    const { tokens, diagnostics } = tokenize("unless a <=> b <= c <~ d < e");
+
+    expect(diagnostics).toEqual([]);
+    expect(tokens.map((t) => [t.Type, t.Literal])).toEqual([
+      ["UNLESS", "unless"],
+      [token.IDENT, "a"],
+      ["SPACESHIP", "<=>"],
+      [token.IDENT, "b"],
+      [token.LT_EQ, "<="],
+      [token.IDENT, "c"],
+      ["LEFT_SQUIGGLE", "<~"],
+      [token.IDENT, "d"],
+      [token.LT, "<"],
+      [token.IDENT, "e"],
+      [token.EOF, ""],
+    ]);
+    expect(tokens[2].Span).toEqual({
+      start: { line: 1, column: 10, offset: 9 },
+      end: { line: 1, column: 13, offset: 12 },
+    });
+  });
+
+  it("取消注册之后应该恢复原来的运算符和关键字", () => {
+    const unregisterOperator = token.registerOperator("<=>", "SPACESHIP");
+    const unregisterKeyword = token.registerKeyword("fn", "FN_KEYWORD");
+    unregisterOperator();
+    unregisterKeyword();
+
+    const { tokens } = tokenize("fn <=>");
+
+    expect(tokens.map((t) => [t.Type, t.Literal])).toEqual([
+      [token.FUNCTION, "fn"],
+      [token.LT_EQ, "<="],
+      [token.GT, ">"],
+      [token.EOF, ""],
+    ]);
+  });
+
+  it("注册的运算符不能与标识符、数字或字符串冲突", () => {
+    for (const literal of ["", "and", "1+", "_x", " +", '"']) {
+      expect(() => token.registerOperator(literal, "BAD")).toThrow(
+        `invalid operator: '${literal}'`
+      );
+    }
+  });
+});
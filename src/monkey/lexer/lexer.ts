@@ -6,6 +6,33 @@
  */
 
 import * as token from "../token/token";
+import type { Diagnostic, DiagnosticSeverity } from "../diagnostic/diagnostic";
+
+/**
+ * Lexer选项
+ */
+export interface LexerOptions {
+  /**
+   * 是否保留注释
+   * 开启后，注释会作为trivia挂在其后的第一个Token上（见Token.Trivia），
+   * 供格式化工具、文档工具等使用；默认丢弃注释
+   */
+  keepComments?: boolean;
+}
+
+/**
+ * 词法诊断信息
+ * 记录词法分析过程中发现的错误或警告，phase总是"lex"，并且一定带有源代码范围
+ */
+export type LexerDiagnostic = Diagnostic & { span: token.Span };
+
+/**
+ * 一个尚未结束的字符串插值 ${ ... }
+ */
+interface Interpolation {
+  braceDepth: number;      // 插值表达式内部尚未闭合的 { 的数量
+  start: token.Position;   // 所在字符串的开始位置，用于报告错误
+}
 
 /**
  * Lexer类
@@ -17,17 +44,26 @@ export class Lexer {
   private position: number;     // 当前字符在输入中的位置（指向当前字符）
   private readPosition: number; // 下一个字符的位置（指向当前字符之后的字符）
   private ch: string;           // 当前正在检查的字符
+  private line: number;         // 当前字符所在的行号（从1开始）
+  private column: number;       // 当前字符所在的列号（从1开始）
+  private options: LexerOptions;              // Lexer选项
+  private diagnostics: LexerDiagnostic[] = []; // 词法诊断信息列表
+  private interpolations: Interpolation[] = [];  // 尚未结束的字符串插值，栈顶是最内层的插值
 
   /**
    * 构造函数
    * 
    * @param input - 要进行词法分析的源代码字符串
+   * @param options - 可选的Lexer选项
    */
-  constructor(input: string) {
+  constructor(input: string, options: LexerOptions = {}) {
     this.input = input;
+    this.options = options;
     this.position = 0;
     this.readPosition = 0;
     this.ch = "";
+    this.line = 1;
+    this.column = 0;
     
     // 初始化时读取第一个字符
     this.readChar();
@@ -37,19 +73,28 @@ export class Lexer {
    * 读取下一个字符
    * 
    * 该方法会移动position和readPosition指针，并更新ch为下一个字符
+   * 字符按Unicode码点读取，因此ch可能由两个UTF-16代码单元组成（如emoji、生僻汉字）
    * 如果已经到达输入的末尾，ch会被设置为空字符串（表示EOF）
    */
   private readChar(): void {
+    // 根据即将离开的字符更新行列号：离开换行符时换到下一行的第一列
+    if (this.ch === "\n") {
+      this.line += 1;
+      this.column = 1;
+    } else {
+      this.column += 1;
+    }
+
     // 检查是否已经读取到输入末尾
     if (this.readPosition >= this.input.length) {
       this.ch = "";  // 用空字符串表示EOF
     } else {
-      this.ch = this.input[this.readPosition];  // 读取下一个字符
+      this.ch = codePointAt(this.input, this.readPosition);  // 读取下一个字符
     }
     
     // 更新位置指针
     this.position = this.readPosition;
-    this.readPosition += 1;
+    this.readPosition += Math.max(this.ch.length, 1);
   }
 
   /**
@@ -63,7 +108,33 @@ export class Lexer {
     if (this.readPosition >= this.input.length) {
       return "";
     }
-    return this.input[this.readPosition];
+    return codePointAt(this.input, this.readPosition);
+  }
+
+  /**
+   * 获取所有词法诊断信息
+   */
+  public getDiagnostics(): LexerDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * 获取当前字符的位置
+   */
+  private currentPosition(): token.Position {
+    return { line: this.line, column: this.column, offset: this.position };
+  }
+
+  /**
+   * 获取当前字符之后的位置
+   * 用于构造包含当前字符在内的范围
+   */
+  private positionAfterCurrent(): token.Position {
+    return {
+      line: this.line,
+      column: this.column + 1,
+      offset: this.position + this.ch.length,
+    };
   }
 
   /**
@@ -83,18 +154,115 @@ export class Lexer {
     }
   }
 
+  /**
+   * 跳过空白字符和注释
+   * 
+   * 注释和空白可以交替出现，因此循环处理直到遇到真正的Token
+   * 
+   * @returns 跳过的注释列表
+   */
+  private skipWhitespaceAndComments(): token.Comment[] {
+    const comments: token.Comment[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+
+      if (this.ch === "/" && this.peekChar() === "/") {
+        comments.push(this.readLineComment());
+      } else if (this.ch === "/" && this.peekChar() === "*") {
+        comments.push(this.readBlockComment());
+      } else {
+        return comments;
+      }
+    }
+  }
+
+  /**
+   * 读取行注释
+   * 
+   * 从 // 读取到行尾（不包括换行符）或文件末尾
+   */
+  private readLineComment(): token.Comment {
+    const start = this.currentPosition();
+
+    while (this.ch !== "\n" && this.ch !== "") {
+      this.readChar();
+    }
+
+    return {
+      kind: "line",
+      text: this.input.slice(start.offset, this.position),
+      span: { start, end: this.currentPosition() },
+    };
+  }
+
+  /**
+   * 读取块注释
+   * 
+   * 从 /* 读取到第一个 *\/ 为止，块注释不能嵌套：
+   * - 注释内部再次出现 /* 时记录一条警告，提示注释会在第一个 *\/ 处结束
+   * - 直到文件末尾都没有 *\/ 时记录一条错误
+   */
+  private readBlockComment(): token.Comment {
+    const start = this.currentPosition();
+
+    // 跳过开头的 /*
+    this.readChar();
+    this.readChar();
+
+    while (true) {
+      if (this.ch === "") {
+        this.report(
+          "unterminated-block-comment",
+          "unterminated block comment",
+          { start, end: this.currentPosition() },
+          ["add '*/' to close the comment"]
+        );
+        break;
+      }
+
+      if (this.ch === "*" && this.peekChar() === "/") {
+        this.readChar();
+        this.readChar();
+        break;
+      }
+
+      if (this.ch === "/" && this.peekChar() === "*") {
+        const nestedStart = this.currentPosition();
+        this.readChar();
+        this.readChar();
+        this.report(
+          "nested-block-comment",
+          "'/*' inside block comment; block comments do not nest",
+          { start: nestedStart, end: this.currentPosition() },
+          ["the comment ends at the first '*/'"],
+          "warning"
+        );
+        continue;
+      }
+
+      this.readChar();
+    }
+
+    return {
+      kind: "block",
+      text: this.input.slice(start.offset, this.position),
+      span: { start, end: this.currentPosition() },
+    };
+  }
+
   /**
    * 读取标识符
    * 
-   * 从当前位置开始读取连续的字母或下划线，直到遇到非标识符字符
+   * 从当前位置开始读取连续的标识符字符，直到遇到非标识符字符
    * 
    * @returns 读取到的标识符字符串
    */
   private readIdentifier(): string {
     const startPosition = this.position;
     
-    // 持续读取字母或下划线
-    while (isLetter(this.ch)) {
+    // 第一个字符已由调用方检查过，持续读取后续的标识符字符
+    while (isIdentifierPart(this.ch)) {
       this.readChar();
     }
     
@@ -105,81 +273,412 @@ export class Lexer {
   /**
    * 读取数字
    * 
-   * 从当前位置开始读取连续的数字字符
+   * 从当前位置开始读取整数或浮点数字面量：
+   * - 整数：连续的数字字符，如 42
+   * - 带进制前缀的整数：0xFF、0b1010、0o755
+   * - 浮点数：带小数部分和/或指数部分，如 3.14、1e-9、2.5E+3
+   * 
+   * 数字之间可以用下划线分隔，如 1_000_000、0xFF_FF
+   * 小数点后面必须紧跟数字才会被当作浮点数的一部分
+   * 
+   * 格式错误的数字（如 0x、1__0、1e）会记录一条错误，并返回ILLEGAL Token
    * 
-   * @returns 读取到的数字字符串
+   * @returns 读取到的INT、FLOAT或ILLEGAL Token
    */
-  private readNumber(): string {
-    const startPosition = this.position;
-    
-    // 持续读取数字字符
-    while (isDigit(this.ch)) {
+  private readNumber(): token.Token {
+    const start = this.currentPosition();
+
+    // 带进制前缀的整数
+    if (this.ch === "0" && RADIX_NAMES[this.peekChar()] !== undefined) {
+      return this.readRadixInteger(start);
+    }
+
+    let tokenType = token.INT;
+
+    // 整数部分
+    this.readDigits();
+
+    // 小数部分
+    if (this.ch === "." && isDigit(this.peekChar())) {
+      tokenType = token.FLOAT;
       this.readChar();
+      this.readDigits();
     }
-    
-    // 返回从起始位置到当前位置的子字符串
-    return this.input.slice(startPosition, this.position);
+
+    // 指数部分
+    if (this.ch.toLowerCase() === "e") {
+      tokenType = token.FLOAT;
+      this.readChar();
+      if (this.ch === "+" || this.ch === "-") {
+        this.readChar();
+      }
+      if (!isDigit(this.ch)) {
+        this.readDigits();
+        return this.malformedNumber("exponent has no digits", start);
+      }
+      this.readDigits();
+    }
+
+    // 检查下划线分隔符的位置
+    const literal = this.input.slice(start.offset, this.position);
+    if (!literal.split(/[.eE+-]/).every(isWellSeparated)) {
+      return this.malformedNumber("'_' must separate digits", start);
+    }
+
+    return { Type: tokenType, Literal: literal };
+  }
+
+  /**
+   * 读取带进制前缀的整数
+   * 
+   * 调用时当前字符是前缀中的0
+   * 前缀之后的字母、数字和下划线都会被读入，再逐个检查是否是该进制的合法数字
+   */
+  private readRadixInteger(start: token.Position): token.Token {
+    const radix = RADIX_NAMES[this.peekChar()];
+
+    // 跳过前缀
+    this.readChar();
+    this.readChar();
+
+    const digitsStart = this.position;
+    while (/[0-9A-Za-z_]/.test(this.ch)) {
+      this.readChar();
+    }
+    const digits = this.input.slice(digitsStart, this.position);
+
+    if (digits.replace(/_/g, "") === "") {
+      return this.malformedNumber("missing digits after base prefix", start);
+    }
+
+    for (const ch of digits) {
+      if (ch !== "_" && !(parseInt(ch, 36) < radix.base)) {
+        return this.malformedNumber(
+          `invalid digit '${ch}' in ${radix.name} literal`,
+          start
+        );
+      }
+    }
+
+    if (!isWellSeparated(digits)) {
+      return this.malformedNumber("'_' must separate digits", start);
+    }
+
+    return {
+      Type: token.INT,
+      Literal: this.input.slice(start.offset, this.position),
+    };
+  }
+
+  /**
+   * 持续读取数字字符和下划线分隔符
+   */
+  private readDigits(): void {
+    while (isDigit(this.ch) || this.ch === "_") {
+      this.readChar();
+    }
+  }
+
+  /**
+   * 记录格式错误的数字，并返回覆盖整个数字的ILLEGAL Token
+   */
+  private malformedNumber(reason: string, start: token.Position): token.Token {
+    const literal = this.input.slice(start.offset, this.position);
+    this.report(
+      "malformed-number",
+      `malformed number literal '${literal}': ${reason}`,
+      { start, end: this.currentPosition() }
+    );
+    return { Type: token.ILLEGAL, Literal: literal };
   }
 
   /**
-   * 读取字符串字面量
+   * 读取字符串字面量或插值字符串的一个片段
    * 
-   * 读取双引号之间的所有字符（不包括引号本身）
+   * 调用时当前字符是开始引号，或者是结束上一个插值的 }
+   * 读取到结束引号或下一个 ${ 之间的所有字符，并解码其中的转义序列
+   * 读取结束后指针位于结束引号或 ${ 之后
+   * 如果直到文件末尾都没有结束引号，记录一条错误
    * 
-   * @returns 字符串内容（不包括引号）
+   * @param start - 所在字符串的开始位置，用于报告错误
+   * @returns 解码后的字符串内容，以及该片段是否以 ${ 结束
    */
-  private readString(): string {
-    // 跳过开始的引号，从下一个字符开始
-    const startPosition = this.position + 1;
-    
-    // 读取字符直到遇到结束引号或文件末尾
+  private readString(start: token.Position): { value: string; interpolated: boolean } {
+    let value = "";
+
     while (true) {
+      // 跳过开始的引号（或 }）或上一个字符
       this.readChar();
-      if (this.ch === '"' || this.ch === "") {
-        break;
+
+      if (this.ch === '"') {
+        // 跳过结束引号
+        this.readChar();
+        return { value, interpolated: false };
+      }
+
+      if (this.ch === "$" && this.peekChar() === "{") {
+        // 跳过 ${
+        this.readChar();
+        this.readChar();
+        return { value, interpolated: true };
+      }
+
+      if (this.ch === "") {
+        this.report(
+          "unterminated-string",
+          "unterminated string literal",
+          { start, end: this.currentPosition() },
+          ["add a closing '\"'"]
+        );
+        return { value, interpolated: false };
+      }
+
+      if (this.ch === "\\") {
+        value += this.readEscapeSequence();
+      } else {
+        value += this.ch;
       }
     }
-    
-    // 返回引号之间的内容
-    return this.input.slice(startPosition, this.position);
+  }
+
+  /**
+   * 读取一个字符串片段并生成对应的Token
+   * 
+   * - 从开始引号读起：没有插值时是STRING，否则是TEMPLATE_HEAD
+   * - 从结束插值的 } 读起：后面还有插值时是TEMPLATE_MIDDLE，否则是TEMPLATE_TAIL
+   * 片段以 ${ 结束时压入一个新的插值，之后的Token属于插值表达式，直到与之匹配的 }
+   */
+  private readStringToken(start: token.Position, continued: boolean): token.Token {
+    const { value, interpolated } = this.readString(start);
+
+    if (interpolated) {
+      this.interpolations.push({ braceDepth: 0, start });
+      return { Type: continued ? token.TEMPLATE_MIDDLE : token.TEMPLATE_HEAD, Literal: value };
+    }
+    if (continued) {
+      return { Type: token.TEMPLATE_TAIL, Literal: value };
+    }
+    return { Type: token.STRING, Literal: value };
+  }
+
+  /**
+   * 读取转义序列
+   * 
+   * 调用时当前字符是反斜杠，返回时当前字符是转义序列的最后一个字符
+   * 支持的转义序列：
+   * - \n \t \r \0 \b \f \v \\ \" \$
+   * - \xHH：两位十六进制数表示的字符
+   * - \uHHHH：四位十六进制数表示的字符
+   * - \u{H...}：1到6位十六进制数表示的Unicode码点
+   * 
+   * 无法识别或格式错误的转义序列会记录一条错误
+   * 
+   * @returns 转义序列代表的字符
+   */
+  private readEscapeSequence(): string {
+    const start = this.currentPosition();
+
+    // 跳过反斜杠，读取转义字符
+    this.readChar();
+
+    switch (this.ch) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "0":
+        return "\0";
+      case "b":
+        return "\b";
+      case "f":
+        return "\f";
+      case "v":
+        return "\v";
+      case "\\":
+        return "\\";
+      case '"':
+        return '"';
+      case "$":
+        return "$";
+
+      // 反斜杠后就是文件末尾，交给readString报告未闭合的字符串
+      case "":
+        return "";
+
+      case "x": {
+        const digits = this.readHexDigits(2);
+        if (digits.length !== 2) {
+          this.escapeError("invalid \\x escape: expected 2 hex digits", start);
+          return "";
+        }
+        return String.fromCharCode(parseInt(digits, 16));
+      }
+
+      case "u": {
+        // \u{H...} 形式
+        if (this.peekChar() === "{") {
+          this.readChar();
+          const digits = this.readHexDigits(6);
+          if (this.peekChar() !== "}" || digits.length === 0) {
+            this.escapeError(
+              "invalid \\u{...} escape: expected 1 to 6 hex digits followed by '}'",
+              start
+            );
+            return "";
+          }
+          this.readChar();
+
+          const codePoint = parseInt(digits, 16);
+          if (codePoint > 0x10ffff) {
+            this.escapeError(
+              `invalid \\u{...} escape: code point ${digits} is out of range`,
+              start
+            );
+            return "";
+          }
+          return String.fromCodePoint(codePoint);
+        }
+
+        // \uHHHH 形式
+        const digits = this.readHexDigits(4);
+        if (digits.length !== 4) {
+          this.escapeError("invalid \\u escape: expected 4 hex digits", start);
+          return "";
+        }
+        return String.fromCharCode(parseInt(digits, 16));
+      }
+
+      default:
+        // 保留无法识别的字符，只报告错误
+        this.escapeError(`invalid escape sequence '\\${this.ch}'`, start);
+        return this.ch;
+    }
+  }
+
+  /**
+   * 读取最多max个十六进制数字
+   * 
+   * 只在下一个字符是十六进制数字时才前进，因此返回时当前字符是最后一个读到的数字
+   */
+  private readHexDigits(max: number): string {
+    let digits = "";
+    while (digits.length < max && isHexDigit(this.peekChar())) {
+      this.readChar();
+      digits += this.ch;
+    }
+    return digits;
+  }
+
+  /**
+   * 记录转义序列错误，范围从反斜杠到当前字符（包含）
+   */
+  private escapeError(message: string, start: token.Position): void {
+    const end = this.positionAfterCurrent();
+    this.report("invalid-escape", message, { start, end });
   }
 
   /**
    * 获取下一个Token
    * 
    * 这是Lexer的核心方法，负责识别并返回下一个词法单元
-   * 该方法会跳过空白字符，然后根据当前字符决定Token的类型
+   * 该方法会跳过空白字符和注释，然后根据当前字符决定Token的类型
+   * 返回的Token会带有Span，记录它在源代码中的起止位置
    * 
    * @returns 识别出的Token对象
    */
   public nextToken(): token.Token {
+    // 跳过所有空白字符和注释
+    const comments = this.skipWhitespaceAndComments();
+
+    const start = this.currentPosition();
+    const tok = this.readToken();
+    tok.Span = { start, end: this.currentPosition() };
+
+    // 保留注释时，把注释挂到其后的Token上
+    if (this.options.keepComments && comments.length > 0) {
+      tok.Trivia = comments;
+    }
+
+    return tok;
+  }
+
+  /**
+   * 依次产出剩余的Token，最后一个是EOF
+   * 
+   * @example
+   * ```typescript
+   * for (const tok of new Lexer("let x = 5;")) {
+   *   console.log(tok.Type, tok.Literal);
+   * }
+   * ```
+   */
+  public *[Symbol.iterator](): Iterator<token.Token> {
+    while (true) {
+      const tok = this.nextToken();
+      yield tok;
+      if (tok.Type === token.EOF) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 从当前字符开始识别一个Token（不含位置信息）
+   * 
+   * 返回时指针已经移动到Token之后的第一个字符
+   */
+  private readToken(): token.Token {
     let tok: token.Token;
 
-    // 跳过所有空白字符
-    this.skipWhitespace();
+    // 通过registerOperator注册的自定义运算符优先于内置运算符
+    const operator = token.lookupOperator(this.input, this.position);
+    if (operator) {
+      for (const _ of operator.literal) {
+        this.readChar();
+      }
+      return { Type: operator.type, Literal: operator.literal };
+    }
 
     // 根据当前字符判断Token类型
     switch (this.ch) {
-      // 赋值运算符或相等比较运算符
+      // 赋值运算符、相等比较运算符或箭头
       case "=":
-        // 预读下一个字符，判断是 = 还是 ==
+        // 预读下一个字符，判断是 =、== 还是 =>
         if (this.peekChar() === "=") {
           const ch = this.ch;
           this.readChar();
           tok = { Type: token.EQ, Literal: ch + this.ch };
+        } else if (this.peekChar() === ">") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.ARROW, Literal: ch + this.ch };
         } else {
           tok = newToken(token.ASSIGN, this.ch);
         }
         break;
 
-      // 加法运算符
+      // 加法运算符或加法复合赋值运算符
       case "+":
-        tok = newToken(token.PLUS, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.PLUS_ASSIGN, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.PLUS, this.ch);
+        }
         break;
 
-      // 减法运算符
+      // 减法运算符或减法复合赋值运算符
       case "-":
-        tok = newToken(token.MINUS, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.MINUS_ASSIGN, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.MINUS, this.ch);
+        }
         break;
 
       // 逻辑非运算符或不等比较运算符
@@ -194,24 +693,98 @@ export class Lexer {
         }
         break;
 
-      // 除法运算符
+      // 除法运算符或除法复合赋值运算符
+      // 注释已经在skipWhitespaceAndComments中跳过，这里的 / 不会是注释的开头
       case "/":
-        tok = newToken(token.SLASH, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.SLASH_ASSIGN, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.SLASH, this.ch);
+        }
         break;
 
-      // 乘法运算符
+      // 乘法运算符、幂运算符或乘法复合赋值运算符
       case "*":
-        tok = newToken(token.ASTERISK, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.ASTERISK_ASSIGN, Literal: ch + this.ch };
+        } else if (this.peekChar() === "*") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.POWER, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.ASTERISK, this.ch);
+        }
         break;
 
-      // 小于运算符
+      // 取模运算符
+      case "%":
+        tok = newToken(token.PERCENT, this.ch);
+        break;
+
+      // 小于运算符、小于等于运算符或左移运算符
       case "<":
-        tok = newToken(token.LT, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.LT_EQ, Literal: ch + this.ch };
+        } else if (this.peekChar() === "<") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.SHL, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.LT, this.ch);
+        }
         break;
 
-      // 大于运算符
+      // 大于运算符、大于等于运算符或右移运算符
       case ">":
-        tok = newToken(token.GT, this.ch);
+        if (this.peekChar() === "=") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.GT_EQ, Literal: ch + this.ch };
+        } else if (this.peekChar() === ">") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.SHR, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.GT, this.ch);
+        }
+        break;
+
+      // 逻辑与运算符或按位与运算符
+      case "&":
+        if (this.peekChar() === "&") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.AND, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.BIT_AND, this.ch);
+        }
+        break;
+
+      // 逻辑或运算符或按位或运算符
+      case "|":
+        if (this.peekChar() === "|") {
+          const ch = this.ch;
+          this.readChar();
+          tok = { Type: token.OR, Literal: ch + this.ch };
+        } else {
+          tok = newToken(token.BIT_OR, this.ch);
+        }
+        break;
+
+      // 按位异或运算符
+      case "^":
+        tok = newToken(token.BIT_XOR, this.ch);
+        break;
+
+      // 按位取反运算符
+      case "~":
+        tok = newToken(token.TILDE, this.ch);
         break;
 
       // 分号
@@ -229,15 +802,39 @@ export class Lexer {
         tok = newToken(token.COMMA, this.ch);
         break;
 
+      // 省略号，单独的 . 是非法字符
+      case ".":
+        if (this.input.startsWith("...", this.position)) {
+          this.readChar();
+          this.readChar();
+          tok = newToken(token.ELLIPSIS, "...");
+        } else {
+          tok = this.illegalToken();
+        }
+        break;
+
       // 左花括号
       case "{":
+        if (this.interpolations.length > 0) {
+          this.interpolations[this.interpolations.length - 1].braceDepth++;
+        }
         tok = newToken(token.LBRACE, this.ch);
         break;
 
       // 右花括号
-      case "}":
+      // 如果与插值的 ${ 匹配，则结束插值并继续读取字符串的下一个片段
+      case "}": {
+        const interpolation = this.interpolations[this.interpolations.length - 1];
+        if (interpolation && interpolation.braceDepth === 0) {
+          this.interpolations.pop();
+          return this.readStringToken(interpolation.start, true);
+        }
+        if (interpolation) {
+          interpolation.braceDepth--;
+        }
         tok = newToken(token.RBRACE, this.ch);
         break;
+      }
 
       // 左圆括号
       case "(":
@@ -249,13 +846,10 @@ export class Lexer {
         tok = newToken(token.RPAREN, this.ch);
         break;
 
-      // 字符串字面量
+      // 字符串字面量（或插值字符串的第一个片段）
+      // 注意：这里直接返回，readString已经跳过了结束引号或 ${
       case '"':
-        tok = {
-          Type: token.STRING,
-          Literal: this.readString(),
-        };
-        break;
+        return this.readStringToken(this.currentPosition(), false);
 
       // 左方括号
       case "[":
@@ -268,13 +862,14 @@ export class Lexer {
         break;
 
       // 文件结束
+      // 注意：这里直接返回，不移动指针，保证EOF的位置停留在输入末尾
       case "":
-        tok = { Type: token.EOF, Literal: "" };
-        break;
+        this.reportUnterminatedInterpolations();
+        return { Type: token.EOF, Literal: "" };
 
       // 默认情况：标识符、数字或非法字符
       default:
-        if (isLetter(this.ch)) {
+        if (isIdentifierStart(this.ch)) {
           // 读取标识符
           const literal = this.readIdentifier();
           // 查找是关键字还是普通标识符
@@ -284,10 +879,10 @@ export class Lexer {
         } else if (isDigit(this.ch)) {
           // 读取数字
           // 注意：这里直接返回，不需要调用readChar()，因为readNumber已经移动了指针
-          return { Type: token.INT, Literal: this.readNumber() };
+          return this.readNumber();
         } else {
           // 无法识别的字符
-          tok = newToken(token.ILLEGAL, this.ch);
+          tok = this.illegalToken();
         }
     }
 
@@ -295,6 +890,78 @@ export class Lexer {
     this.readChar();
     return tok;
   }
+
+  /**
+   * 到达文件末尾时，为每个尚未结束的插值记录一条错误
+   * 报告后清空插值栈，保证重复读取EOF时不会重复报告
+   */
+  private reportUnterminatedInterpolations(): void {
+    for (const interpolation of this.interpolations) {
+      this.report(
+        "unterminated-interpolation",
+        "unterminated string interpolation",
+        { start: interpolation.start, end: this.currentPosition() },
+        ["add '}' to close the interpolation"]
+      );
+    }
+    this.interpolations = [];
+  }
+
+  /**
+   * 为当前无法识别的字符创建ILLEGAL Token，并记录一条错误
+   */
+  private illegalToken(): token.Token {
+    this.report("unexpected-character", `unexpected character '${this.ch}'`, {
+      start: this.currentPosition(),
+      end: this.positionAfterCurrent(),
+    });
+    return newToken(token.ILLEGAL, this.ch);
+  }
+
+  /**
+   * 记录一条词法诊断信息
+   * 
+   * @param code - 错误码
+   * @param message - 诊断信息
+   * @param span - 出问题的源代码范围
+   * @param hints - 修复建议
+   * @param severity - 严重程度，默认为错误
+   */
+  private report(
+    code: string,
+    message: string,
+    span: token.Span,
+    hints: string[] = [],
+    severity: DiagnosticSeverity = "error"
+  ): void {
+    this.diagnostics.push({ code, severity, phase: "lex", span, message, related: [], hints });
+  }
+}
+
+/**
+ * tokenize的返回结果
+ */
+export interface TokenizeResult {
+  tokens: token.Token[];              // 全部Token（带有Span），最后一个是EOF
+  diagnostics: LexerDiagnostic[];     // 词法诊断信息
+}
+
+/**
+ * 对整段源代码进行词法分析，一次性返回全部Token和诊断信息
+ * 
+ * @param source - 源代码字符串
+ * @param options - 可选的Lexer选项
+ * 
+ * @example
+ * ```typescript
+ * const { tokens, diagnostics } = tokenize("let x = 5;");
+ * // tokens: LET IDENT = INT ; EOF
+ * ```
+ */
+export function tokenize(source: string, options: LexerOptions = {}): TokenizeResult {
+  const lexer = new Lexer(source, options);
+  const tokens = Array.from(lexer);
+  return { tokens, diagnostics: lexer.getDiagnostics() };
 }
 
 /**
@@ -311,19 +978,45 @@ function newToken(tokenType: token.TokenType, ch: string): token.Token {
 }
 
 /**
- * 判断字符是否为字母或下划线
+ * 读取字符串中指定位置的完整Unicode字符
+ * 
+ * 如果该位置是代理对的开头，返回由两个代码单元组成的字符
+ */
+function codePointAt(input: string, index: number): string {
+  return String.fromCodePoint(input.codePointAt(index)!);
+}
+
+/**
+ * 判断字符能否作为标识符的第一个字符
  * 
- * 在Monkey语言中，标识符可以由字母（大小写）和下划线组成
+ * 遵循Unicode的ID_Start规则（各种语言的字母，包括汉字），另外允许下划线
  * 
  * @param ch - 要判断的字符
- * @returns 如果是字母或下划线返回true，否则返回false
+ * @returns 如果可以作为标识符开头返回true，否则返回false
+ * 
+ * @example
+ * ```typescript
+ * isIdentifierStart("x")   // true
+ * isIdentifierStart("总")  // true
+ * isIdentifierStart("_")   // true
+ * isIdentifierStart("1")   // false
+ * ```
  */
-function isLetter(ch: string): boolean {
-  return (
-    ("a" <= ch && ch <= "z") ||
-    ("A" <= ch && ch <= "Z") ||
-    ch === "_"
-  );
+function isIdentifierStart(ch: string): boolean {
+  return ch === "_" || /^\p{ID_Start}$/u.test(ch);
+}
+
+/**
+ * 判断字符能否作为标识符的后续字符
+ * 
+ * 遵循Unicode的ID_Continue规则：在ID_Start的基础上还允许数字、下划线、组合附加符号等
+ * 因此 user2、x1 这样的标识符是合法的
+ * 
+ * @param ch - 要判断的字符
+ * @returns 如果可以出现在标识符中返回true，否则返回false
+ */
+function isIdentifierPart(ch: string): boolean {
+  return /^\p{ID_Continue}$/u.test(ch);
 }
 
 /**
@@ -336,3 +1029,41 @@ function isDigit(ch: string): boolean {
   return "0" <= ch && ch <= "9";
 }
 
+/**
+ * 进制前缀字符到进制信息的映射表
+ * 用于识别 0x、0b、0o 开头的整数
+ */
+const RADIX_NAMES: Record<string, { base: number; name: string }> = {
+  x: { base: 16, name: "hexadecimal" },
+  X: { base: 16, name: "hexadecimal" },
+  b: { base: 2, name: "binary" },
+  B: { base: 2, name: "binary" },
+  o: { base: 8, name: "octal" },
+  O: { base: 8, name: "octal" },
+};
+
+/**
+ * 检查一段数字中的下划线分隔符是否合法
+ * 
+ * 下划线只能出现在两个数字之间：不能在开头、结尾，也不能连续出现
+ * 
+ * @param digits - 不含进制前缀、小数点和指数符号的一段数字
+ */
+function isWellSeparated(digits: string): boolean {
+  return !digits.startsWith("_") && !digits.endsWith("_") && !digits.includes("__");
+}
+
+/**
+ * 判断字符是否为十六进制数字
+ * 
+ * @param ch - 要判断的字符
+ * @returns 如果是0-9、a-f或A-F返回true，否则返回false
+ */
+function isHexDigit(ch: string): boolean {
+  return (
+    isDigit(ch) ||
+    ("a" <= ch && ch <= "f") ||
+    ("A" <= ch && ch <= "F")
+  );
+}
+
@@ -85,6 +85,39 @@ export class Environment {
     this.store.set(name, val);
     return val;
   }
+
+  /**
+   * 更新已经存在的变量
+   * 
+   * 沿着作用域链向外查找名为name的变量，在找到它的那个环境中更新它的值
+   * 与set不同，assign不会创建新的绑定：变量不存在时什么都不做并返回false
+   * 
+   * @param name - 变量名
+   * @param val - 新的值
+   * @returns 找到并更新了变量返回true，否则返回false
+   * 
+   * @example
+   * ```typescript
+   * const globalEnv = new Environment();
+   * globalEnv.set("count", new IntegerObject(0));
+   * 
+   * const funcEnv = newEnclosedEnvironment(globalEnv);
+   * funcEnv.assign("count", new IntegerObject(1));  // true，更新的是globalEnv中的count
+   * funcEnv.assign("other", new IntegerObject(1));  // false，变量不存在
+   * ```
+   */
+  public assign(name: string, val: MonkeyObject): boolean {
+    if (this.store.has(name)) {
+      this.store.set(name, val);
+      return true;
+    }
+
+    if (this.outer !== undefined) {
+      return this.outer.assign(name, val);
+    }
+
+    return false;
+  }
 }
 
 /**
@@ -5,13 +5,14 @@
  * 在求值过程中，所有的值都被表示为Object类型
  * 
  * 对象类型包括：
- * - 基本类型：Integer（整数）、Boolean（布尔值）、String（字符串）、Null（空值）
+ * - 基本类型：Integer（整数）、Float（浮点数）、Boolean（布尔值）、String（字符串）、Null（空值）
  * - 复合类型：Array（数组）、Hash（哈希表）
  * - 函数类型：Function（函数）、Builtin（内置函数）
  * - 特殊类型：ReturnValue（返回值）、Error（错误）
  */
 
 import * as ast from "../ast/ast";
+import type { Span } from "../token/token";
 import { Environment } from "./environment";
 import type { 
   MonkeyObject, 
@@ -21,13 +22,18 @@ import {
   NULL_OBJ,
   ERROR_OBJ,
   INTEGER_OBJ,
+  FLOAT_OBJ,
   BOOLEAN_OBJ,
   STRING_OBJ,
   RETURN_VALUE_OBJ,
+  BREAK_SIGNAL_OBJ,
+  CONTINUE_SIGNAL_OBJ,
   FUNCTION_OBJ,
   BUILTIN_OBJ,
   ARRAY_OBJ,
-  HASH_OBJ
+  HASH_OBJ,
+  QUOTE_OBJ,
+  MACRO_OBJ
 } from "./types";
 
 // 重新导出类型以保持向后兼容
@@ -36,13 +42,18 @@ export {
   NULL_OBJ,
   ERROR_OBJ,
   INTEGER_OBJ,
+  FLOAT_OBJ,
   BOOLEAN_OBJ,
   STRING_OBJ,
   RETURN_VALUE_OBJ,
+  BREAK_SIGNAL_OBJ,
+  CONTINUE_SIGNAL_OBJ,
   FUNCTION_OBJ,
   BUILTIN_OBJ,
   ARRAY_OBJ,
-  HASH_OBJ
+  HASH_OBJ,
+  QUOTE_OBJ,
+  MACRO_OBJ
 };
 
 /**
@@ -100,6 +111,43 @@ export class IntegerObject implements MonkeyObject, Hashable {
   }
 }
 
+/**
+ * FloatObject类
+ * 
+ * 表示浮点数值
+ */
+export class FloatObject implements MonkeyObject, Hashable {
+  constructor(public value: number) {}
+
+  type(): ObjectType {
+    return FLOAT_OBJ;
+  }
+
+  /**
+   * 整数值的浮点数也带上小数点，与整数区分开
+   * 例如：3.0 显示为 "3.0"，而不是 "3"
+   */
+  inspect(): string {
+    const str = this.value.toString();
+    if (Number.isFinite(this.value) && !/[.e]/.test(str)) {
+      return str + ".0";
+    }
+    return str;
+  }
+
+  /**
+   * 浮点数的哈希键直接使用其值
+   * 整数值的浮点数与相等的整数使用同一个哈希键，
+   * 因为 1 == 1.0，{1: "a"}[1.0] 也应该找到 "a"
+   */
+  hashKey(): HashKey {
+    if (Number.isInteger(this.value)) {
+      return new HashKey(INTEGER_OBJ, this.value);
+    }
+    return new HashKey(this.type(), this.value);
+  }
+}
+
 /**
  * BooleanObject类
  * 
@@ -191,13 +239,49 @@ export class ReturnValue implements MonkeyObject {
   }
 }
 
+/**
+ * BreakSignal类
+ * 
+ * break语句产生的控制流信号
+ * 和ReturnValue一样会让代码块立即停止执行并向外传递，直到被最近的循环接住
+ */
+export class BreakSignal implements MonkeyObject {
+  type(): ObjectType {
+    return BREAK_SIGNAL_OBJ;
+  }
+
+  inspect(): string {
+    return "break";
+  }
+}
+
+/**
+ * ContinueSignal类
+ * 
+ * continue语句产生的控制流信号
+ * 会让代码块立即停止执行并向外传递，最近的循环接住后直接进入下一次迭代
+ */
+export class ContinueSignal implements MonkeyObject {
+  type(): ObjectType {
+    return CONTINUE_SIGNAL_OBJ;
+  }
+
+  inspect(): string {
+    return "continue";
+  }
+}
+
 /**
  * ErrorObject类
  * 
  * 表示运行时错误
+ * code是错误码（如 type-mismatch、division-by-zero），便于工具按类别处理错误
+ * span记录产生该错误的AST节点在源代码中的位置，由求值器填写
  */
 export class ErrorObject implements MonkeyObject {
-  constructor(public message: string) {}
+  public span?: Span;
+
+  constructor(public message: string, public code: string = "runtime-error") {}
 
   type(): ObjectType {
     return ERROR_OBJ;
@@ -217,12 +301,12 @@ export class ErrorObject implements MonkeyObject {
  */
 export class FunctionObject implements MonkeyObject {
   /**
-   * @param parameters - 函数参数列表
+   * @param parameters - 函数参数列表，参数可以是解构模式
    * @param body - 函数体
    * @param env - 函数定义时的环境（用于闭包）
    */
   constructor(
-    public parameters: ast.Identifier[],
+    public parameters: ast.BindingTarget[],
     public body: ast.BlockStatement,
     public env: Environment
   ) {}
@@ -320,6 +404,53 @@ export class HashObject implements MonkeyObject {
   }
 }
 
+// ==================== 宏相关类型 ====================
+
+/**
+ * QuoteObject类
+ * 
+ * 表示quote(...)的结果，包装一个未求值的AST节点
+ * 宏的参数和返回值都是QuoteObject
+ */
+export class QuoteObject implements MonkeyObject {
+  constructor(public node: ast.Node) {}
+
+  type(): ObjectType {
+    return QUOTE_OBJ;
+  }
+
+  inspect(): string {
+    return `QUOTE(${this.node.toString()})`;
+  }
+}
+
+/**
+ * MacroObject类
+ * 
+ * 表示用macro(...) { ... }定义的宏
+ */
+export class MacroObject implements MonkeyObject {
+  /**
+   * @param parameters - 宏参数列表
+   * @param body - 宏体
+   * @param env - 宏定义时的环境
+   */
+  constructor(
+    public parameters: ast.Identifier[],
+    public body: ast.BlockStatement,
+    public env: Environment
+  ) {}
+
+  type(): ObjectType {
+    return MACRO_OBJ;
+  }
+
+  inspect(): string {
+    const params = this.parameters.map(p => p.toString()).join(", ");
+    return `macro(${params}) {\n${this.body.toString()}\n}`;
+  }
+}
+
 /**
  * 类型守卫函数：检查对象是否可哈希
  */
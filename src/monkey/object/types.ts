@@ -5,23 +5,43 @@
  * 将类型定义独立出来以避免循环依赖
  */
 
-/**
- * ObjectType类型
- * 用字符串表示对象的类型
- */
-export type ObjectType = string;
-
 // 对象类型常量定义
 export const NULL_OBJ = "NULL";              // 空值类型
 export const ERROR_OBJ = "ERROR";            // 错误类型
 export const INTEGER_OBJ = "INTEGER";        // 整数类型
+export const FLOAT_OBJ = "FLOAT";            // 浮点数类型
 export const BOOLEAN_OBJ = "BOOLEAN";        // 布尔值类型
 export const STRING_OBJ = "STRING";          // 字符串类型
 export const RETURN_VALUE_OBJ = "RETURN_VALUE";  // 返回值类型
+export const BREAK_SIGNAL_OBJ = "BREAK_SIGNAL";  // break信号类型
+export const CONTINUE_SIGNAL_OBJ = "CONTINUE_SIGNAL";  // continue信号类型
 export const FUNCTION_OBJ = "FUNCTION";      // 函数类型
 export const BUILTIN_OBJ = "BUILTIN";        // 内置函数类型
 export const ARRAY_OBJ = "ARRAY";            // 数组类型
 export const HASH_OBJ = "HASH";              // 哈希表类型
+export const QUOTE_OBJ = "QUOTE";            // quote值类型，包装未求值的AST节点
+export const MACRO_OBJ = "MACRO";            // 宏类型
+
+/**
+ * ObjectType类型
+ * 所有对象类型常量组成的联合类型，对type()的返回值使用switch时TypeScript可以检查是否处理了所有类型
+ */
+export type ObjectType =
+  | typeof NULL_OBJ
+  | typeof ERROR_OBJ
+  | typeof INTEGER_OBJ
+  | typeof FLOAT_OBJ
+  | typeof BOOLEAN_OBJ
+  | typeof STRING_OBJ
+  | typeof RETURN_VALUE_OBJ
+  | typeof BREAK_SIGNAL_OBJ
+  | typeof CONTINUE_SIGNAL_OBJ
+  | typeof FUNCTION_OBJ
+  | typeof BUILTIN_OBJ
+  | typeof ARRAY_OBJ
+  | typeof HASH_OBJ
+  | typeof QUOTE_OBJ
+  | typeof MACRO_OBJ;
 
 /**
  * Object接口
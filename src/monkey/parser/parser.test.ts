@@ -4,12 +4,24 @@
  * 测试语法分析器是否能正确解析各种语法结构
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import { Lexer } from "../lexer/lexer";
-import { Parser } from "./parser";
+import {
+  Parser,
+  Precedence,
+  registerPrecedence,
+  registerParserExtension,
+} from "./parser";
+import { registerOperator } from "../token/token";
 import * as ast from "../ast/ast";
 
 describe("Parser", () => {
+  // 测试中注册的运算符、优先级和Parser扩展在测试结束后取消
+  const unregisters: (() => void)[] = [];
+  afterEach(() => {
+    unregisters.splice(0).reverse().forEach((unregister) => unregister());
+  });
+
   /**
    * 辅助函数：检查解析错误
    */
@@ -50,7 +62,7 @@ let foobar = 838383;
       
       const letStmt = stmt as ast.LetStatement;
       expect(letStmt.tokenLiteral()).toBe("let");
-      expect(letStmt.name.value).toBe(expectedIdentifiers[i]);
+      expect((letStmt.name as ast.Identifier).value).toBe(expectedIdentifiers[i]);
     }
   });
 
@@ -256,6 +268,29 @@ return 993322;
     expect(exp.consequence.statements.length).toBe(1);
   });
 
+  it("else if应该解析为嵌套的if表达式", () => {
+    const input = "if (a) { 1 } else if (b) { 2 } else if (c) { 3 } else { 4 }";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    const exp = (program.statements[0] as ast.ExpressionStatement).expression as ast.IfExpression;
+    const second = exp.alternative as ast.IfExpression;
+    const third = second.alternative as ast.IfExpression;
+
+    expect(second).toBeInstanceOf(ast.IfExpression);
+    expect(third).toBeInstanceOf(ast.IfExpression);
+    expect(third.alternative).toBeInstanceOf(ast.BlockStatement);
+    expect((second.condition as ast.Identifier).value).toBe("b");
+    expect(second.span?.start.column).toBe(19);
+    expect(exp.toString()).toBe("ifa 1else ifb 2else ifc 3else 4");
+
+    const errors = new Parser(new Lexer("if (a) { 1 } else if { 2 }"));
+    errors.parseProgram();
+    expect(errors.getErrors()).toEqual(["1:22: expected next token to be (, got { instead"]);
+  });
+
   it("应该正确解析函数字面量", () => {
     const input = "fn(x, y) { x + y; }";
 
@@ -274,8 +309,8 @@ return 993322;
     
     // 检查参数
     expect(func.parameters.length).toBe(2);
-    expect(func.parameters[0].value).toBe("x");
-    expect(func.parameters[1].value).toBe("y");
+    expect((func.parameters[0] as ast.Identifier).value).toBe("x");
+    expect((func.parameters[1] as ast.Identifier).value).toBe("y");
     
     // 检查函数体
     expect(func.body.statements.length).toBe(1);
@@ -370,5 +405,644 @@ return 993322;
     expect(hash).toBeInstanceOf(ast.HashLiteral);
     expect(hash.pairs.size).toBe(3);
   });
-});
 
+  it("应该为AST节点记录位置范围", () => {
+    const input = `let a = 1;
+add(a, (2 + 3) * 4)[0];`;
+
+    const lexer = new Lexer(input);
+    const parser = new Parser(lexer);
+    const program = parser.parseProgram();
+
+    checkParserErrors(parser);
+
+    // 将范围转换为源代码片段，便于断言
+    const text = (node: ast.Node) =>
+      input.slice(node.span!.start.offset, node.span!.end.offset);
+
+    expect(text(program)).toBe(input);
+
+    const letStmt = program.statements[0] as ast.LetStatement;
+    expect(text(letStmt)).toBe("let a = 1;");
+    expect(text(letStmt.name)).toBe("a");
+    expect(text(letStmt.value)).toBe("1");
+
+    const stmt = program.statements[1] as ast.ExpressionStatement;
+    expect(stmt.span!.start.line).toBe(2);
+    expect(stmt.span!.start.column).toBe(1);
+
+    const index = stmt.expression as ast.IndexExpression;
+    expect(text(index)).toBe("add(a, (2 + 3) * 4)[0]");
+
+    const call = index.left as ast.CallExpression;
+    expect(text(call)).toBe("add(a, (2 + 3) * 4)");
+
+    const product = call.args[1] as ast.InfixExpression;
+    expect(text(product)).toBe("(2 + 3) * 4");
+    expect(text(product.left)).toBe("(2 + 3)");
+  });
+
+  it("解析错误应该包含行列号", () => {
+    const input = `let x = 5;
+let = 10;`;
+
+    const lexer = new Lexer(input);
+    const parser = new Parser(lexer);
+    parser.parseProgram();
+
+    expect(parser.getErrors()[0]).toBe(
+      "2:5: expected next token to be IDENT, got = instead"
+    );
+  });
+
+  it("应该忽略注释", () => {
+    const input = `// 计算总和
+let total = 1 + /* 中间 */ 2; // 结尾`;
+
+    const lexer = new Lexer(input);
+    const parser = new Parser(lexer);
+    const program = parser.parseProgram();
+
+    checkParserErrors(parser);
+
+    expect(program.toString()).toBe("let total = (1 + 2);");
+  });
+
+  it("应该报告词法错误", () => {
+    const lexer = new Lexer("let x = 1;\n/* 未闭合");
+    const parser = new Parser(lexer);
+    parser.parseProgram();
+
+    expect(parser.getErrors()).toEqual(["2:1: unterminated block comment"]);
+  });
+
+  it("包含转义序列的字符串应该可以往返转换", () => {
+    const input = String.raw`let s = "a\"b\n\u{4e2d}\\";`;
+
+    const program = new Parser(new Lexer(input)).parseProgram();
+    const printed = program.toString();
+    expect(printed).toBe(String.raw`let s = "a\"b\n中\\";`);
+
+    const reparsed = new Parser(new Lexer(printed)).parseProgram();
+    const letStmt = reparsed.statements[0] as ast.LetStatement;
+    expect((letStmt.value as ast.StringLiteral).value).toBe('a"b\n中\\');
+    expect(reparsed.toString()).toBe(printed);
+  });
+
+  it("应该正确解析浮点数字面量", () => {
+    const program = new Parser(new Lexer("1.5 * 2e3;")).parseProgram();
+
+    const stmt = program.statements[0] as ast.ExpressionStatement;
+    const exp = stmt.expression as ast.InfixExpression;
+
+    expect(exp.left).toBeInstanceOf(ast.FloatLiteral);
+    expect((exp.left as ast.FloatLiteral).value).toBe(1.5);
+    expect((exp.right as ast.FloatLiteral).value).toBe(2000);
+    expect(program.toString()).toBe("(1.5 * 2e3)");
+  });
+
+  it("应该正确解析带进制前缀和下划线分隔符的整数", () => {
+    const tests = [
+      { input: "0xFF", expected: 255 },
+      { input: "0b1010", expected: 10 },
+      { input: "0o755", expected: 493 },
+      { input: "1_000_000", expected: 1000000 },
+      { input: "0x_", expected: null },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+
+      if (test.expected === null) {
+        // 只报告一次词法错误，不再重复报告解析错误
+        expect(parser.getErrors()).toEqual([
+          "1:1: malformed number literal '0x_': missing digits after base prefix",
+        ]);
+        continue;
+      }
+
+      checkParserErrors(parser);
+      const stmt = program.statements[0] as ast.ExpressionStatement;
+      expect((stmt.expression as ast.IntegerLiteral).value).toBe(test.expected);
+    }
+  });
+
+  it("应该正确处理比较和逻辑运算符的优先级", () => {
+    const tests = [
+      { input: "a <= b == c >= d", expected: "((a <= b) == (c >= d))" },
+      { input: "a || b && c", expected: "(a || (b && c))" },
+      { input: "a && b || c && d", expected: "((a && b) || (c && d))" },
+      { input: "a == b && c != d", expected: "((a == b) && (c != d))" },
+      { input: "!a || b + 1 < c", expected: "((!a) || ((b + 1) < c))" },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+
+      checkParserErrors(parser);
+      expect(program.toString()).toBe(test.expected);
+    }
+  });
+
+  it("应该正确处理取模、幂和位运算符的优先级", () => {
+    const tests = [
+      { input: "a * b % c", expected: "((a * b) % c)" },
+      { input: "a + b % c", expected: "(a + (b % c))" },
+      { input: "2 ** 3 ** 2", expected: "(2 ** (3 ** 2))" },
+      { input: "-2 ** 2", expected: "(-(2 ** 2))" },
+      { input: "2 ** -1", expected: "(2 ** (-1))" },
+      { input: "a * b ** c", expected: "(a * (b ** c))" },
+      { input: "a | b ^ c & d", expected: "(a | (b ^ (c & d)))" },
+      { input: "a & b << c + d", expected: "(a & (b << (c + d)))" },
+      { input: "a << b >> c", expected: "((a << b) >> c)" },
+      { input: "a & b == c", expected: "((a & b) == c)" },
+      { input: "~a & b", expected: "((~a) & b)" },
+      { input: "a | b || c", expected: "((a | b) || c)" },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+
+      checkParserErrors(parser);
+      expect(program.toString()).toBe(test.expected);
+    }
+  });
+
+  it("应该解析插值字符串", () => {
+    const input = '"Hello, ${name}, you are ${age + 1}"';
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    const stmt = program.statements[0] as ast.ExpressionStatement;
+    const str = stmt.expression as ast.InterpolatedString;
+    expect(str).toBeInstanceOf(ast.InterpolatedString);
+    expect(str.strings).toEqual(["Hello, ", ", you are ", ""]);
+    expect(str.expressions.map((e) => e.toString())).toEqual(["name", "(age + 1)"]);
+    expect(str.span?.start.offset).toBe(0);
+    expect(str.span?.end.offset).toBe(input.length);
+  });
+
+  it("插值字符串的toString应该可以被重新解析", () => {
+    const tests = [
+      { input: '"a${x}b${y * 2}c"', expected: '"a${x}b${(y * 2)}c"' },
+      { input: '"${"q\\"${1}"}"', expected: '"${"q\\"${1}"}"' },
+      { input: '"\\${x} $${x}"', expected: '"\\${x} $${x}"' },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+      checkParserErrors(parser);
+      expect(program.toString()).toBe(test.expected);
+
+      const reparsed = new Parser(new Lexer(test.expected));
+      expect(reparsed.parseProgram().toString()).toBe(test.expected);
+    }
+  });
+
+  it("空的插值应该报告错误", () => {
+    const parser = new Parser(new Lexer('"a${}b"'));
+    parser.parseProgram();
+
+    expect(parser.getErrors()).toEqual(["1:5: empty expression in string interpolation"]);
+  });
+
+  it("出错后应该跳到语句边界继续解析，只报告一个错误", () => {
+    const tests = [
+      {
+        input: "let x = add(1, 2;\nlet y = 3;",
+        statements: ["let x = <error>;", "let y = 3;"],
+        errors: ["1:17: expected next token to be ), got ; instead"],
+      },
+      {
+        input: "if (x > 1 { return 1; }\nlet y = 2;",
+        statements: ["<error>", "let y = 2;"],
+        errors: ["1:11: expected next token to be ), got { instead"],
+      },
+      {
+        input: "let = 5; x + 1;",
+        statements: ["<error>", "(x + 1)"],
+        errors: ["1:5: expected next token to be IDENT, got = instead"],
+      },
+      {
+        input: "1 + ) ; 2",
+        statements: ["<error>", "2"],
+        errors: ["1:5: no prefix parse function for ) found"],
+      },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+
+      expect(program.statements.map((s) => s.toString())).toEqual(test.statements);
+      expect(parser.getErrors()).toEqual(test.errors);
+    }
+  });
+
+  it("代码块中的错误应该只影响出错的语句", () => {
+    const input = "let f = fn(a) { let b = ; a };\nlet g = fn() { 1 + };\ng();";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+
+    expect(parser.getErrors()).toEqual([
+      "1:25: no prefix parse function for ; found",
+      "2:20: no prefix parse function for } found",
+    ]);
+    expect(program.statements.length).toBe(3);
+
+    const f = (program.statements[0] as ast.LetStatement).value as ast.FunctionLiteral;
+    expect(f.body.statements.length).toBe(2);
+    expect((f.body.statements[0] as ast.LetStatement).value).toBeInstanceOf(ast.ErrorExpression);
+
+    const g = (program.statements[1] as ast.LetStatement).value as ast.FunctionLiteral;
+    expect(g.body.statements.length).toBe(1);
+    expect(g.body.statements[0]).toBeInstanceOf(ast.ErrorStatement);
+
+    expect(program.statements[2].toString()).toBe("g()");
+  });
+
+  it("代码块中哈希表或数组的 } 出错时不应该结束代码块", () => {
+    const tests = [
+      {
+        input: "let f = fn() { let x = {1: }; 5 };\nf();",
+        errors: ["1:28: no prefix parse function for } found"],
+      },
+      {
+        input: "let f = fn() { [1, }; 5 };\nf();",
+        errors: ["1:20: no prefix parse function for } found"],
+      },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+
+      expect(parser.getErrors()).toEqual(test.errors);
+      expect(program.statements.length).toBe(2);
+
+      const f = (program.statements[0] as ast.LetStatement).value as ast.FunctionLiteral;
+      expect(f.body.statements.map((s) => s.toString())).toEqual([
+        expect.any(String),
+        "5",
+      ]);
+      expect(program.statements[1].toString()).toBe("f()");
+    }
+  });
+
+  it("错误节点应该覆盖被跳过的源代码", () => {
+    const input = "let x = add(1, 2;\nfoo bar;";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+
+    const value = (program.statements[0] as ast.LetStatement).value;
+    expect(value).toBeInstanceOf(ast.ErrorExpression);
+    expect(value.span?.start.offset).toBe(8);
+    expect(value.span?.end.offset).toBe(17);
+
+    expect(program.statements.map((s) => s.constructor.name)).toEqual([
+      "LetStatement",
+      "ExpressionStatement",
+      "ExpressionStatement",
+    ]);
+  });
+
+  it("getDiagnostics应该返回结构化的诊断信息", () => {
+    const input = "let x = add(1,\n 2;";
+
+    const parser = new Parser(new Lexer(input));
+    parser.parseProgram();
+
+    const diagnostics = parser.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+
+    const d = diagnostics[0];
+    expect(d.code).toBe("unexpected-token");
+    expect(d.severity).toBe("error");
+    expect(d.phase).toBe("parse");
+    expect(d.message).toBe("expected next token to be ), got ; instead");
+    expect(d.span?.start).toEqual({ line: 2, column: 3, offset: 17 });
+
+    // 相关位置指向未闭合的左括号
+    expect(d.related.length).toBe(1);
+    expect(d.related[0].message).toBe("to match this '('");
+    expect(d.related[0].span?.start.offset).toBe(11);
+
+    expect(parser.getErrors()).toEqual(["2:3: expected next token to be ), got ; instead"]);
+  });
+
+  it("getDiagnostics应该包含词法阶段的诊断信息和警告", () => {
+    const parser = new Parser(new Lexer("/* /* */ let x = #;"));
+    parser.parseProgram();
+
+    expect(parser.getDiagnostics().map((d) => [d.phase, d.code])).toEqual([
+      ["lex", "nested-block-comment"],
+      ["lex", "unexpected-character"],
+    ]);
+    expect(parser.getErrors()).toEqual(["1:18: unexpected character '#'"]);
+  });
+
+  it("应该解析while语句", () => {
+    const input = "while (x < 10) { puts(x); };";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    expect(program.statements.length).toBe(1);
+    const stmt = program.statements[0] as ast.WhileStatement;
+    expect(stmt).toBeInstanceOf(ast.WhileStatement);
+    expect(stmt.condition.toString()).toBe("(x < 10)");
+    expect(stmt.body.statements.length).toBe(1);
+    expect(stmt.body.toString()).toBe("puts(x)");
+    expect(stmt.span?.end.offset).toBe(input.length);
+  });
+
+  it("应该解析for-in语句", () => {
+    const input = 'for (key in {"a": 1}) { puts(key) }';
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    expect(program.statements.length).toBe(1);
+    const stmt = program.statements[0] as ast.ForInStatement;
+    expect(stmt).toBeInstanceOf(ast.ForInStatement);
+    expect(stmt.variable.value).toBe("key");
+    expect(stmt.iterable).toBeInstanceOf(ast.HashLiteral);
+    expect(stmt.body.toString()).toBe("puts(key)");
+    expect(stmt.toString()).toBe('for (key in {"a":1}) puts(key)');
+  });
+
+  it("for-in语句缺少in时应该报告错误", () => {
+    const parser = new Parser(new Lexer("for (x of arr) { x }"));
+    parser.parseProgram();
+
+    expect(parser.getErrors()).toEqual(["1:8: expected next token to be IN, got IDENT instead"]);
+  });
+
+  it("应该解析循环中的break和continue语句", () => {
+    const input = "while (true) { if (x) { break; } continue }";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    const body = (program.statements[0] as ast.WhileStatement).body;
+    const ifExp = (body.statements[0] as ast.ExpressionStatement).expression as ast.IfExpression;
+    expect(ifExp.consequence.statements[0]).toBeInstanceOf(ast.BreakStatement);
+    expect(body.statements[1]).toBeInstanceOf(ast.ContinueStatement);
+    expect(body.toString()).toBe("ifx break;continue;");
+  });
+
+  it("循环之外的break和continue应该报告错误", () => {
+    const tests = [
+      { input: "break;", expected: ["1:1: 'break' outside of a loop"] },
+      { input: "if (x) { continue; }", expected: ["1:10: 'continue' outside of a loop"] },
+      {
+        input: "for (x in xs) { let f = fn() { break; }; }",
+        expected: ["1:32: 'break' outside of a loop"],
+      },
+      { input: "for (x in xs) { while (x) { break; } continue; }", expected: [] },
+      { input: "let f = fn() { while (true) { return fn() { 1 }; break; } };", expected: [] },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      parser.parseProgram();
+
+      expect(parser.getErrors()).toEqual(test.expected);
+    }
+  });
+
+  it("应该解析赋值表达式，赋值是右结合的", () => {
+    const tests = [
+      { input: "x = 5", expected: "(x = 5)" },
+      { input: "x = y = 1 + 2", expected: "(x = (y = (1 + 2)))" },
+      { input: "x += y * 2", expected: "(x += (y * 2))" },
+      { input: "x -= 1; y *= 2; z /= 3", expected: "(x -= 1)(y *= 2)(z /= 3)" },
+      { input: "x = a || b", expected: "(x = (a || b))" },
+      { input: "arr[i + 1] = 5", expected: "((arr[(i + 1)]) = 5)" },
+      { input: 'h["a"]["b"] += 1', expected: '(((h["a"])["b"]) += 1)' },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+      checkParserErrors(parser);
+
+      expect(program.toString()).toBe(test.expected);
+    }
+  });
+
+  it("赋值目标不是标识符时应该报告错误", () => {
+    const tests = [
+      { input: "1 = 2", expected: ["1:3: invalid assignment target: 1"] },
+      { input: "f() += 1", expected: ["1:5: invalid assignment target: f()"] },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      parser.parseProgram();
+
+      expect(parser.getErrors()).toEqual(test.expected);
+      expect(parser.getDiagnostics()[0].code).toBe("invalid-assignment-target");
+    }
+  });
+
+  it("应该解析宏字面量", () => {
+    const input = "macro(x, y) { x + y; }";
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    const stmt = program.statements[0] as ast.ExpressionStatement;
+    const macro = stmt.expression as ast.MacroLiteral;
+    expect(macro).toBeInstanceOf(ast.MacroLiteral);
+    expect(macro.parameters.map((p) => p.value)).toEqual(["x", "y"]);
+    expect(macro.body.toString()).toBe("(x + y)");
+    expect(macro.toString()).toBe("macro(x, y) (x + y)");
+  });
+
+  it("应该解析match表达式和各种模式", () => {
+    const input = `match (shape) {
+      0 => "zero",
+      -1.5 => "negative",
+      _ => x,
+      n if n > 10 => n,
+      [head, ...tail] => head,
+      [] => 0,
+      {"type": "circle", "r": r} => r * r,
+    }`;
+
+    const parser = new Parser(new Lexer(input));
+    const program = parser.parseProgram();
+    checkParserErrors(parser);
+
+    const match = (program.statements[0] as ast.ExpressionStatement)
+      .expression as ast.MatchExpression;
+    expect(match).toBeInstanceOf(ast.MatchExpression);
+    expect(match.arms.map((arm) => arm.pattern.constructor)).toEqual([
+      ast.LiteralPattern,
+      ast.LiteralPattern,
+      ast.WildcardPattern,
+      ast.IdentifierPattern,
+      ast.ArrayPattern,
+      ast.ArrayPattern,
+      ast.HashPattern,
+    ]);
+    expect(match.arms[3].guard?.toString()).toBe("(n > 10)");
+    expect(match.toString()).toBe(
+      'match (shape) { 0 => "zero", -1.5 => "negative", _ => x, ' +
+        "n if (n > 10) => n, [head, ...tail] => head, [] => 0, " +
+        '{"type": "circle", "r": r} => (r * r) }'
+    );
+
+    // toString的结果可以被重新解析
+    const reparsed = new Parser(new Lexer(match.toString())).parseProgram();
+    expect(reparsed.toString()).toBe(program.toString());
+  });
+
+  it("非法的模式应该报告错误", () => {
+    const tests = [
+      { input: "match (x) { a + 1 => 1 }", expected: ["1:15: expected next token to be =>, got + instead"] },
+      { input: "match (x) { fn => 1 }", expected: ["1:13: expected pattern, got FUNCTION instead"] },
+      { input: "match (x) { [...a, b] => 1 }", expected: ["1:18: expected next token to be ], got , instead"] },
+      { input: "match (x) { {y: 1} => 1 }", expected: ["1:14: expected pattern, got IDENT instead"] },
+      { input: "match (x) { 1 => 1 2 => 2 }", expected: ["1:20: expected next token to be ,, got INT instead"] },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      parser.parseProgram();
+
+      expect(parser.getErrors()).toEqual(test.expected);
+    }
+  });
+
+  it("不可达的match分支应该报告警告", () => {
+    const tests = [
+      { input: "match (x) { _ => 1, 2 => 2 }", unreachable: ["1:21"] },
+      { input: "match (x) { n => 1, _ => 2, [] => 3 }", unreachable: ["1:21", "1:29"] },
+      { input: "match (x) { 1 => 1, 1 => 2, 2 => 3 }", unreachable: ["1:21"] },
+      { input: "match (x) { [a, ...b] => 1, [1, 2] => 2, [] => 3 }", unreachable: ["1:29"] },
+      { input: 'match (x) { {"a": _} => 1, {"a": 1, "b": 2} => 2 }', unreachable: ["1:28"] },
+      // 有守卫条件的分支不会让后面的分支不可达
+      { input: "match (x) { n if n > 0 => 1, _ => 2 }", unreachable: [] },
+      { input: "match (x) { [a] => 1, [a, b] => 2, {} => 3 }", unreachable: [] },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      parser.parseProgram();
+
+      const warnings = parser.getDiagnostics();
+      expect(parser.getErrors()).toEqual([]);
+      expect(warnings.every((d) => d.severity === "warning" && d.code === "unreachable-match-arm")).toBe(true);
+      expect(warnings.map((d) => `${d.span?.start.line}:${d.span?.start.column}`)).toEqual(test.unreachable);
+    }
+
+    const parser = new Parser(new Lexer("match (x) { _ => 1, 2 => 2 }"));
+    parser.parseProgram();
+    expect(parser.getDiagnostics()[0].related[0].span?.start.column).toBe(13);
+  });
+
+  it("应该解析let语句和函数参数中的解构模式", () => {
+    const tests = [
+      { input: "let [a, b, ...rest] = arr;", expected: "let [a, b, ...rest] = arr;" },
+      { input: 'let {"name": n, "age": a} = person;', expected: 'let {"name": n, "age": a} = person;' },
+      { input: 'let [x, {"k": [y, _]}] = v;', expected: 'let [x, {"k": [y, _]}] = v;' },
+      { input: 'fn([x, y], {"name": n}, z) { x }', expected: 'fn([x, y], {"name": n}, z) x' },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+      checkParserErrors(parser);
+
+      expect(program.toString()).toBe(test.expected);
+    }
+
+    const program = new Parser(new Lexer("let [a, ...b] = c; fn({1: x}) {}")).parseProgram();
+    expect((program.statements[0] as ast.LetStatement).name).toBeInstanceOf(ast.ArrayPattern);
+    const func = (program.statements[1] as ast.ExpressionStatement).expression as ast.FunctionLiteral;
+    expect(func.parameters[0]).toBeInstanceOf(ast.HashPattern);
+  });
+
+  it("列表的最后一项后面可以有逗号", () => {
+    const tests = [
+      { input: "[1, 2,]", expected: "[1, 2]" },
+      { input: "add(1, 2,)", expected: "add(1, 2)" },
+      { input: "fn(x, y,) { x }", expected: "fn(x, y) x" },
+      { input: '{"a": 1,}', expected: '{"a":1}' },
+      { input: "let [a, b,] = c;", expected: "let [a, b] = c;" },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+      checkParserErrors(parser);
+
+      expect(program.toString()).toBe(test.expected);
+    }
+
+    const parser = new Parser(new Lexer("add(1, , 2)"));
+    parser.parseProgram();
+    expect(parser.getErrors()[0]).toBe("1:8: no prefix parse function for , found");
+  });
+
+  it("宏参数不能是解构模式", () => {
+    const parser = new Parser(new Lexer("macro([a]) { a }"));
+    parser.parseProgram();
+
+    expect(parser.getErrors()[0]).toBe("1:8: expected next token to be ), got IDENT instead");
+  });
+
+  it("应该支持通过扩展注册的中缀运算符", () => {
+    unregisters.push(
+      registerOperator("|>", "PIPE"),
+      registerPrecedence("PIPE", Precedence.ASSIGN + 0.5),
+      registerParserExtension((parser) => {
+        parser.registerInfix("PIPE", (left) => {
+          const tok = parser.getCurToken();
+          parser.nextToken();
+          const right = parser.parseExpression(Precedence.ASSIGN + 0.5);
+          if (!right) {
+            return null;
+          }
+          return parser.finishNode(
+            new ast.InfixExpression(tok, left, tok.Literal, right),
+            left.span?.start
+          );
+        });
+      })
+    );
+
+    const tests = [
+      { input: "a |> f |> g", expected: "((a |> f) |> g)" },
+      { input: "a + 1 |> f || g", expected: "((a + 1) |> (f || g))" },
+      { input: "x = a |> f", expected: "(x = (a |> f))" },
+      { input: "a | b |> c", expected: "((a | b) |> c)" },
+    ];
+
+    for (const test of tests) {
+      const parser = new Parser(new Lexer(test.input));
+      const program = parser.parseProgram();
+      checkParserErrors(parser);
+
+      expect(program.toString()).toBe(test.expected);
+    }
+
+    const parser = new Parser(new Lexer("a |> ;"));
+    parser.parseProgram();
+    expect(parser.getErrors()[0]).toBe("1:6: no prefix parse function for ; found");
+  });
+});
@@ -13,18 +13,31 @@
 import { Lexer } from "../lexer/lexer";
 import * as token from "../token/token";
 import * as ast from "../ast/ast";
+import { formatDiagnostic } from "../diagnostic/diagnostic";
+import type { Diagnostic, RelatedInformation } from "../diagnostic/diagnostic";
 
 /**
  * 运算符优先级常量
  * 数值越大，优先级越高
+ *
+ * 扩展运算符时可以使用这些值，也可以使用两级之间的小数，
+ * 例如 Precedence.SUM + 0.5 表示比 + 结合得更紧、比 * 结合得更松
  */
-const enum Precedence {
+export enum Precedence {
   LOWEST = 1,      // 最低优先级
+  ASSIGN,          // =、+=、-=、*= 或 /=（右结合）
+  LOGICAL_OR,      // ||
+  LOGICAL_AND,     // &&
   EQUALS,          // == 或 !=
-  LESSGREATER,     // < 或 >
+  LESSGREATER,     // <、>、<= 或 >=
+  BIT_OR,          // |
+  BIT_XOR,         // ^
+  BIT_AND,         // &
+  SHIFT,           // << 或 >>
   SUM,             // + 或 -
-  PRODUCT,         // * 或 /
-  PREFIX,          // -X 或 !X
+  PRODUCT,         // *、/ 或 %
+  PREFIX,          // -X、!X 或 ~X
+  EXPONENT,        // X ** Y（右结合，比前缀运算符结合得更紧：-2 ** 2 等于 -(2 ** 2)）
   CALL,            // myFunction(X)
   INDEX,           // array[index]
 }
@@ -33,15 +46,31 @@ const enum Precedence {
  * Token类型到优先级的映射表
  * 用于确定运算符的优先级
  */
-const precedences: Record<token.TokenType, Precedence> = {
+const precedences: Record<token.TokenType, number> = {
+  [token.ASSIGN]: Precedence.ASSIGN,
+  [token.PLUS_ASSIGN]: Precedence.ASSIGN,
+  [token.MINUS_ASSIGN]: Precedence.ASSIGN,
+  [token.ASTERISK_ASSIGN]: Precedence.ASSIGN,
+  [token.SLASH_ASSIGN]: Precedence.ASSIGN,
+  [token.OR]: Precedence.LOGICAL_OR,
+  [token.AND]: Precedence.LOGICAL_AND,
   [token.EQ]: Precedence.EQUALS,
   [token.NOT_EQ]: Precedence.EQUALS,
   [token.LT]: Precedence.LESSGREATER,
   [token.GT]: Precedence.LESSGREATER,
+  [token.LT_EQ]: Precedence.LESSGREATER,
+  [token.GT_EQ]: Precedence.LESSGREATER,
+  [token.BIT_OR]: Precedence.BIT_OR,
+  [token.BIT_XOR]: Precedence.BIT_XOR,
+  [token.BIT_AND]: Precedence.BIT_AND,
+  [token.SHL]: Precedence.SHIFT,
+  [token.SHR]: Precedence.SHIFT,
   [token.PLUS]: Precedence.SUM,
   [token.MINUS]: Precedence.SUM,
   [token.SLASH]: Precedence.PRODUCT,
   [token.ASTERISK]: Precedence.PRODUCT,
+  [token.PERCENT]: Precedence.PRODUCT,
+  [token.POWER]: Precedence.EXPONENT,
   [token.LPAREN]: Precedence.CALL,
   [token.LBRACKET]: Precedence.INDEX,
 };
@@ -49,14 +78,109 @@ const precedences: Record<token.TokenType, Precedence> = {
 /**
  * 前缀解析函数类型
  * 用于解析前缀位置的表达式
+ *
+ * 调用时当前Token是表达式的第一个Token，返回时当前Token应该是表达式的最后一个Token
  */
-type PrefixParseFn = () => ast.Expression | null;
+export type PrefixParseFn = () => ast.Expression | null;
 
 /**
  * 中缀解析函数类型
  * 用于解析中缀位置的表达式，接收左侧表达式作为参数
+ *
+ * 调用时当前Token是中缀运算符，返回时当前Token应该是表达式的最后一个Token
  */
-type InfixParseFn = (left: ast.Expression) => ast.Expression | null;
+export type InfixParseFn = (left: ast.Expression) => ast.Expression | null;
+
+/**
+ * Parser扩展类型
+ * 每创建一个Parser都会调用一次，在其中用registerPrefix、registerInfix注册解析函数
+ */
+export type ParserExtension = (parser: Parser) => void;
+
+/**
+ * 已注册的Parser扩展
+ */
+const extensions: ParserExtension[] = [];
+
+/**
+ * 设置Token作为中缀运算符时的优先级
+ *
+ * 自定义的中缀运算符需要设置优先级，否则会被当作LOWEST，永远不会触发中缀解析函数
+ * 也可以用来修改内置运算符的优先级
+ *
+ * @returns 取消注册的函数，调用后恢复原来的优先级
+ *
+ * @example
+ * ```typescript
+ * registerPrecedence("PIPE", Precedence.LOGICAL_OR - 0.5);
+ * ```
+ */
+export function registerPrecedence(
+  tokenType: token.TokenType,
+  precedence: number
+): () => void {
+  const previous = Object.hasOwn(precedences, tokenType)
+    ? precedences[tokenType]
+    : undefined;
+  precedences[tokenType] = precedence;
+
+  return () => {
+    if (precedences[tokenType] !== precedence) {
+      return;
+    }
+    if (previous === undefined) {
+      delete precedences[tokenType];
+    } else {
+      precedences[tokenType] = previous;
+    }
+  };
+}
+
+/**
+ * 获取Token作为中缀运算符时的优先级，不是中缀运算符时返回LOWEST
+ *
+ * 格式化工具等需要根据优先级决定是否加括号时使用
+ */
+export function lookupPrecedence(tokenType: token.TokenType): number {
+  return precedences[tokenType] ?? Precedence.LOWEST;
+}
+
+/**
+ * 注册Parser扩展
+ *
+ * 用于在不修改parser.ts的情况下添加自定义语法，之后创建的所有Parser
+ * （包括execute内部创建的）都会在内置解析函数之后调用扩展，因此扩展可以覆盖内置的解析函数
+ * 通常与token模块的registerKeyword、registerOperator，
+ * 以及evaluator模块的registerNodeEvaluator一起使用
+ *
+ * @returns 取消注册的函数，调用后之后创建的Parser不再调用该扩展
+ *
+ * @example
+ * ```typescript
+ * registerOperator("|>", "PIPE");
+ * registerPrecedence("PIPE", Precedence.LOGICAL_OR - 0.5);
+ * registerParserExtension((parser) => {
+ *   parser.registerInfix("PIPE", (left) => {
+ *     const tok = parser.getCurToken();
+ *     parser.nextToken();
+ *     const right = parser.parseExpression(Precedence.LOGICAL_OR - 0.5);
+ *     return right && parser.finishNode(new PipeExpression(tok, left, right), left.span?.start);
+ *   });
+ * });
+ * ```
+ */
+export function registerParserExtension(
+  extension: ParserExtension
+): () => void {
+  extensions.push(extension);
+
+  return () => {
+    const index = extensions.indexOf(extension);
+    if (index !== -1) {
+      extensions.splice(index, 1);
+    }
+  };
+}
 
 /**
  * Parser类
@@ -65,10 +189,15 @@ type InfixParseFn = (left: ast.Expression) => ast.Expression | null;
  */
 export class Parser {
   private lexer: Lexer;                                           // 词法分析器
-  private errors: string[] = [];                                  // 解析错误列表
+  private diagnostics: Diagnostic[] = [];                         // 解析诊断信息列表
   
   private curToken: token.Token;                                  // 当前Token
   private peekToken: token.Token;                                 // 下一个Token（预读）
+  private blockDepth = 0;                                         // 当前所在代码块的嵌套层数，用于错误恢复
+  private blockEndedByError = false;                              // 出错的Token恰好是所在代码块的 }
+  private nesting = 0;                                            // 已读取的Token中未闭合的括号（( [ {）数量，用于错误恢复
+  private statementNesting = 0;                                   // 当前语句开始之前的nesting
+  private loopDepth = 0;                                          // 当前所在循环体的嵌套层数，进入函数字面量时重新计数
   
   private prefixParseFns: Map<token.TokenType, PrefixParseFn>;   // 前缀解析函数映射
   private infixParseFns: Map<token.TokenType, InfixParseFn>;     // 中缀解析函数映射
@@ -92,14 +221,19 @@ export class Parser {
     // 注册前缀解析函数
     this.registerPrefix(token.IDENT, this.parseIdentifier.bind(this));
     this.registerPrefix(token.INT, this.parseIntegerLiteral.bind(this));
+    this.registerPrefix(token.FLOAT, this.parseFloatLiteral.bind(this));
     this.registerPrefix(token.STRING, this.parseStringLiteral.bind(this));
+    this.registerPrefix(token.TEMPLATE_HEAD, this.parseInterpolatedString.bind(this));
     this.registerPrefix(token.BANG, this.parsePrefixExpression.bind(this));
     this.registerPrefix(token.MINUS, this.parsePrefixExpression.bind(this));
+    this.registerPrefix(token.TILDE, this.parsePrefixExpression.bind(this));
     this.registerPrefix(token.TRUE, this.parseBoolean.bind(this));
     this.registerPrefix(token.FALSE, this.parseBoolean.bind(this));
     this.registerPrefix(token.LPAREN, this.parseGroupedExpression.bind(this));
     this.registerPrefix(token.IF, this.parseIfExpression.bind(this));
     this.registerPrefix(token.FUNCTION, this.parseFunctionLiteral.bind(this));
+    this.registerPrefix(token.MACRO, this.parseMacroLiteral.bind(this));
+    this.registerPrefix(token.MATCH, this.parseMatchExpression.bind(this));
     this.registerPrefix(token.LBRACKET, this.parseArrayLiteral.bind(this));
     this.registerPrefix(token.LBRACE, this.parseHashLiteral.bind(this));
     
@@ -108,104 +242,219 @@ export class Parser {
     this.registerInfix(token.MINUS, this.parseInfixExpression.bind(this));
     this.registerInfix(token.SLASH, this.parseInfixExpression.bind(this));
     this.registerInfix(token.ASTERISK, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.PERCENT, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.POWER, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.BIT_AND, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.BIT_OR, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.BIT_XOR, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.SHL, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.SHR, this.parseInfixExpression.bind(this));
     this.registerInfix(token.EQ, this.parseInfixExpression.bind(this));
     this.registerInfix(token.NOT_EQ, this.parseInfixExpression.bind(this));
     this.registerInfix(token.LT, this.parseInfixExpression.bind(this));
     this.registerInfix(token.GT, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.LT_EQ, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.GT_EQ, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.AND, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.OR, this.parseInfixExpression.bind(this));
+    this.registerInfix(token.ASSIGN, this.parseAssignExpression.bind(this));
+    this.registerInfix(token.PLUS_ASSIGN, this.parseAssignExpression.bind(this));
+    this.registerInfix(token.MINUS_ASSIGN, this.parseAssignExpression.bind(this));
+    this.registerInfix(token.ASTERISK_ASSIGN, this.parseAssignExpression.bind(this));
+    this.registerInfix(token.SLASH_ASSIGN, this.parseAssignExpression.bind(this));
     this.registerInfix(token.LPAREN, this.parseCallExpression.bind(this));
     this.registerInfix(token.LBRACKET, this.parseIndexExpression.bind(this));
+
+    // 应用通过registerParserExtension注册的扩展
+    for (const extension of extensions) {
+      extension(this);
+    }
     
     // 读取两个Token，设置curToken和peekToken
     this.nextToken();
     this.nextToken();
   }
 
+  /**
+   * 获取所有诊断信息
+   * 包括词法分析阶段的诊断信息（排在前面），以及警告
+   */
+  public getDiagnostics(): Diagnostic[] {
+    return [...this.lexer.getDiagnostics(), ...this.diagnostics];
+  }
+
   /**
    * 获取所有解析错误
+   * 包括词法分析阶段发现的错误（排在前面），警告不计入其中
+   * 每条错误格式化为 "行:列: 信息" 的形式，需要结构化信息时使用getDiagnostics
    */
   public getErrors(): string[] {
-    return this.errors;
+    return this.getDiagnostics()
+      .filter((d) => d.severity === "error")
+      .map(formatDiagnostic);
+  }
+
+  /**
+   * 获取当前Token
+   */
+  public getCurToken(): token.Token {
+    return this.curToken;
+  }
+
+  /**
+   * 获取下一个Token（预读）
+   */
+  public getPeekToken(): token.Token {
+    return this.peekToken;
   }
 
   /**
    * 读取下一个Token
    * 将peekToken移动到curToken，从lexer读取新的peekToken
    */
-  private nextToken(): void {
+  public nextToken(): void {
     this.curToken = this.peekToken;
     this.peekToken = this.lexer.nextToken();
+
+    if (isOpeningBracket(this.curToken.Type)) {
+      this.nesting++;
+    } else if (isClosingBracket(this.curToken.Type)) {
+      this.nesting--;
+    }
   }
 
   /**
    * 检查当前Token是否为指定类型
    */
-  private curTokenIs(t: token.TokenType): boolean {
+  public curTokenIs(t: token.TokenType): boolean {
     return this.curToken.Type === t;
   }
 
   /**
    * 检查下一个Token是否为指定类型
    */
-  private peekTokenIs(t: token.TokenType): boolean {
+  public peekTokenIs(t: token.TokenType): boolean {
     return this.peekToken.Type === t;
   }
 
   /**
    * 期望下一个Token为指定类型
    * 如果是，则前进一个Token；否则记录错误
+   * 
+   * @param t - 期望的Token类型
+   * @param opening - 期望的是右括号时，对应的左括号Token，会作为相关位置记录在错误中
    */
-  private expectPeek(t: token.TokenType): boolean {
+  public expectPeek(t: token.TokenType, opening?: token.Token): boolean {
     if (this.peekTokenIs(t)) {
       this.nextToken();
       return true;
     }
-    this.peekError(t);
+    this.peekError(t, opening);
     return false;
   }
 
+  /**
+   * 记录一条解析错误，位置取自出错的Token
+   */
+  public addError(
+    code: string,
+    msg: string,
+    tok: token.Token,
+    related: RelatedInformation[] = []
+  ): void {
+    this.diagnostics.push({
+      code,
+      severity: "error",
+      phase: "parse",
+      span: tok.Span,
+      message: msg,
+      related,
+      hints: [],
+    });
+  }
+
+  /**
+   * 记录一条警告，位置取自相关的节点
+   * 警告不影响解析结果，也不会出现在getErrors中
+   */
+  private addWarning(
+    code: string,
+    msg: string,
+    node: ast.Node,
+    related: RelatedInformation[] = []
+  ): void {
+    this.diagnostics.push({
+      code,
+      severity: "warning",
+      phase: "parse",
+      span: node.span,
+      message: msg,
+      related,
+      hints: [],
+    });
+  }
+
   /**
    * 记录期望Token类型不匹配的错误
    */
-  private peekError(t: token.TokenType): void {
+  private peekError(t: token.TokenType, opening?: token.Token): void {
     const msg = `expected next token to be ${t}, got ${this.peekToken.Type} instead`;
-    this.errors.push(msg);
+    const related = opening
+      ? [{ message: `to match this '${opening.Literal}'`, span: opening.Span }]
+      : [];
+    this.addError("unexpected-token", msg, this.peekToken, related);
   }
 
   /**
    * 记录没有找到前缀解析函数的错误
+   * ILLEGAL Token的错误已经由Lexer报告过，这里不再重复记录
    */
   private noPrefixParseFnError(t: token.TokenType): void {
+    if (t === token.ILLEGAL) {
+      return;
+    }
     const msg = `no prefix parse function for ${t} found`;
-    this.errors.push(msg);
+    this.addError("expected-expression", msg, this.curToken);
+  }
+
+  /**
+   * 为节点设置位置范围
+   * 范围从start开始，到当前Token的结束位置为止
+   * 调用时当前Token应该是该节点的最后一个Token
+   */
+  public finishNode<T extends ast.Node>(node: T, start?: token.Position): T {
+    const end = this.curToken.Span?.end;
+    if (start && end) {
+      node.span = { start, end };
+    }
+    return node;
   }
 
   /**
    * 获取下一个Token的优先级
    */
-  private peekPrecedence(): Precedence {
-    const p = precedences[this.peekToken.Type];
-    return p !== undefined ? p : Precedence.LOWEST;
+  private peekPrecedence(): number {
+    return lookupPrecedence(this.peekToken.Type);
   }
 
   /**
    * 获取当前Token的优先级
    */
-  private curPrecedence(): Precedence {
-    const p = precedences[this.curToken.Type];
-    return p !== undefined ? p : Precedence.LOWEST;
+  private curPrecedence(): number {
+    return lookupPrecedence(this.curToken.Type);
   }
 
   /**
    * 注册前缀解析函数
    */
-  private registerPrefix(tokenType: token.TokenType, fn: PrefixParseFn): void {
+  public registerPrefix(tokenType: token.TokenType, fn: PrefixParseFn): void {
     this.prefixParseFns.set(tokenType, fn);
   }
 
   /**
    * 注册中缀解析函数
    */
-  private registerInfix(tokenType: token.TokenType, fn: InfixParseFn): void {
+  public registerInfix(tokenType: token.TokenType, fn: InfixParseFn): void {
     this.infixParseFns.set(tokenType, fn);
   }
 
@@ -213,6 +462,7 @@ export class Parser {
    * 解析程序
    * 
    * 这是Parser的入口方法，解析整个程序并返回AST
+   * 即使存在语法错误也会返回完整的Program，出错的部分由ErrorStatement和ErrorExpression占位
    */
   public parseProgram(): ast.Program {
     const program = new ast.Program();
@@ -220,27 +470,131 @@ export class Parser {
 
     // 持续解析语句直到文件结束
     while (!this.curTokenIs(token.EOF)) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        program.statements.push(stmt);
-      }
+      program.statements.push(this.parseStatement());
       this.nextToken();
     }
 
+    // 程序的范围从第一个语句开始，到最后一个语句结束
+    const first = program.statements[0];
+    const last = program.statements[program.statements.length - 1];
+    if (first?.span && last?.span) {
+      program.span = { start: first.span.start, end: last.span.end };
+    }
+
     return program;
   }
 
+  /**
+   * 解析语句，出错时进行错误恢复
+   * 
+   * 语句解析失败时跳到下一个语句边界（见synchronize），
+   * 并用一个ErrorStatement代替这条语句，避免一个错误引发一连串无意义的错误
+   */
+  private parseStatement(): ast.Statement {
+    const start = this.curToken;
+
+    // 语句中可能嵌套着代码块里的语句，结束时恢复外层语句的nesting
+    const outerStatementNesting = this.statementNesting;
+    this.statementNesting =
+      this.nesting - (isOpeningBracket(start.Type) ? 1 : 0);
+
+    try {
+      const stmt = this.parseStatementWithoutRecovery();
+      if (stmt !== null) {
+        return stmt;
+      }
+
+      this.synchronize();
+      return this.finishNode(new ast.ErrorStatement(start), start.Span?.start);
+    } finally {
+      this.statementNesting = outerStatementNesting;
+    }
+  }
+
+  /**
+   * 解析出错后，用ErrorExpression代替出错的表达式
+   * 
+   * 与parseStatement一样先跳到下一个语句边界，
+   * 用于let、return这类只有一个表达式的语句，让语句本身得以保留
+   * 
+   * @param start - 出错表达式的第一个Token
+   */
+  private recoverExpression(start: token.Token): ast.ErrorExpression {
+    this.synchronize();
+    return this.finishNode(new ast.ErrorExpression(start), start.Span?.start);
+  }
+
+  /**
+   * 跳过Token直到语句边界（panic-mode错误恢复）
+   * 
+   * 停止的位置：
+   * - 当前Token是 ;
+   * - 下一个Token是 let、return 或文件结束
+   * - 在代码块内部时，下一个Token是 }（留给代码块自己结束）
+   * 跳过的Token中如果有成对的 { }，会把整个代码块一起跳过，不在其中停止
+   * 
+   * 返回后curToken是被跳过的最后一个Token，调用方照常前进到下一条语句即可
+   * 
+   * 特殊情况：如果出错的Token正是所在代码块的 }（例如 { 1 + }），
+   * 它同时也结束了代码块，通过blockEndedByError通知parseBlockStatement
+   * 出错的语句中还有没闭合的括号时（例如 { let x = {1: }; 5 }），
+   * 这个 } 只是结束了语句中的哈希表或数组，不是代码块的结尾
+   */
+  private synchronize(): void {
+    if (
+      this.curTokenIs(token.RBRACE) &&
+      this.blockDepth > 0 &&
+      this.nesting < this.statementNesting
+    ) {
+      this.blockEndedByError = true;
+      return;
+    }
+
+    let depth = 0;
+
+    while (!this.curTokenIs(token.EOF)) {
+      if (depth === 0) {
+        if (this.curTokenIs(token.SEMICOLON)) {
+          return;
+        }
+        if (
+          this.peekTokenIs(token.LET) ||
+          this.peekTokenIs(token.RETURN) ||
+          this.peekTokenIs(token.EOF) ||
+          (this.peekTokenIs(token.RBRACE) && this.blockDepth > 0)
+        ) {
+          return;
+        }
+      }
+
+      this.nextToken();
+
+      if (this.curTokenIs(token.LBRACE)) {
+        depth++;
+      } else if (this.curTokenIs(token.RBRACE) && depth > 0) {
+        depth--;
+      }
+    }
+  }
+
   /**
    * 解析语句
    * 
    * 根据当前Token类型决定解析哪种语句
    */
-  private parseStatement(): ast.Statement | null {
+  private parseStatementWithoutRecovery(): ast.Statement | null {
     switch (this.curToken.Type) {
       case token.LET:
         return this.parseLetStatement();
       case token.RETURN:
         return this.parseReturnStatement();
+      case token.WHILE:
+        return this.parseWhileStatement();
+      case token.FOR:
+        return this.parseForInStatement();
+      case token.BREAK:
+      case token.CONTINUE:
+        return this.parseLoopControlStatement();
       default:
         return this.parseExpressionStatement();
     }
@@ -249,17 +603,27 @@ export class Parser {
   /**
    * 解析let语句
    * 格式：let <identifier> = <expression>;
+   * 或者：let <array-pattern | hash-pattern> = <expression>;
    */
   private parseLetStatement(): ast.LetStatement | null {
     const stmtToken = this.curToken;
 
-    // 期望下一个Token是标识符
-    if (!this.expectPeek(token.IDENT)) {
-      return null;
+    let name: ast.BindingTarget | null;
+    if (this.peekTokenIs(token.LBRACKET) || this.peekTokenIs(token.LBRACE)) {
+      // 解构模式
+      this.nextToken();
+      name = this.parseBindingTarget();
+      if (!name) {
+        return null;
+      }
+    } else {
+      // 期望下一个Token是标识符
+      if (!this.expectPeek(token.IDENT)) {
+        return null;
+      }
+      name = this.parseParameter();
     }
 
-    const name = new ast.Identifier(this.curToken, this.curToken.Literal);
-
     // 期望下一个Token是赋值符号
     if (!this.expectPeek(token.ASSIGN)) {
       return null;
@@ -268,17 +632,19 @@ export class Parser {
     this.nextToken();
 
     // 解析赋值表达式
-    const value = this.parseExpression(Precedence.LOWEST);
-    if (!value) {
-      return null;
-    }
+    const valueToken = this.curToken;
+    const value =
+      this.parseExpression(Precedence.LOWEST) ?? this.recoverExpression(valueToken);
 
     // 可选的分号
     if (this.peekTokenIs(token.SEMICOLON)) {
       this.nextToken();
     }
 
-    return new ast.LetStatement(stmtToken, name, value);
+    return this.finishNode(
+      new ast.LetStatement(stmtToken, name, value),
+      stmtToken.Span?.start
+    );
   }
 
   /**
@@ -291,17 +657,156 @@ export class Parser {
     this.nextToken();
 
     // 解析返回值表达式
-    const returnValue = this.parseExpression(Precedence.LOWEST);
-    if (!returnValue) {
+    const valueToken = this.curToken;
+    const returnValue =
+      this.parseExpression(Precedence.LOWEST) ?? this.recoverExpression(valueToken);
+
+    // 可选的分号
+    if (this.peekTokenIs(token.SEMICOLON)) {
+      this.nextToken();
+    }
+
+    return this.finishNode(
+      new ast.ReturnStatement(stmtToken, returnValue),
+      stmtToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析while语句
+   * 格式：while (<condition>) { <body> }
+   */
+  private parseWhileStatement(): ast.WhileStatement | null {
+    const stmtToken = this.curToken;
+
+    if (!this.expectPeek(token.LPAREN)) {
+      return null;
+    }
+    const lparen = this.curToken;
+
+    this.nextToken();
+
+    // 解析循环条件
+    const condition = this.parseExpression(Precedence.LOWEST);
+    if (!condition) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.RPAREN, lparen)) {
       return null;
     }
 
+    if (!this.expectPeek(token.LBRACE)) {
+      return null;
+    }
+
+    // 解析循环体
+    const body = this.parseLoopBody();
+
     // 可选的分号
     if (this.peekTokenIs(token.SEMICOLON)) {
       this.nextToken();
     }
 
-    return new ast.ReturnStatement(stmtToken, returnValue);
+    return this.finishNode(
+      new ast.WhileStatement(stmtToken, condition, body),
+      stmtToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析for-in语句
+   * 格式：for (<identifier> in <expression>) { <body> }
+   */
+  private parseForInStatement(): ast.ForInStatement | null {
+    const stmtToken = this.curToken;
+
+    if (!this.expectPeek(token.LPAREN)) {
+      return null;
+    }
+    const lparen = this.curToken;
+
+    // 循环变量
+    if (!this.expectPeek(token.IDENT)) {
+      return null;
+    }
+    const variable = this.finishNode(
+      new ast.Identifier(this.curToken, this.curToken.Literal),
+      this.curToken.Span?.start
+    );
+
+    if (!this.expectPeek(token.IN)) {
+      return null;
+    }
+
+    this.nextToken();
+
+    // 解析被遍历的表达式
+    const iterable = this.parseExpression(Precedence.LOWEST);
+    if (!iterable) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.RPAREN, lparen)) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.LBRACE)) {
+      return null;
+    }
+
+    // 解析循环体
+    const body = this.parseLoopBody();
+
+    // 可选的分号
+    if (this.peekTokenIs(token.SEMICOLON)) {
+      this.nextToken();
+    }
+
+    return this.finishNode(
+      new ast.ForInStatement(stmtToken, variable, iterable, body),
+      stmtToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析循环体，循环体中允许使用break和continue
+   */
+  private parseLoopBody(): ast.BlockStatement {
+    this.loopDepth++;
+    const body = this.parseBlockStatement();
+    this.loopDepth--;
+    return body;
+  }
+
+  /**
+   * 解析break或continue语句
+   * 格式：break; 或 continue;
+   * 
+   * 只能出现在循环体中；函数字面量会开启新的上下文，
+   * 因此循环体中定义的函数内部也不能直接使用外层循环的break和continue
+   */
+  private parseLoopControlStatement(): ast.Statement {
+    const stmtToken = this.curToken;
+
+    if (this.loopDepth === 0) {
+      this.addError(
+        "outside-loop",
+        `'${stmtToken.Literal}' outside of a loop`,
+        stmtToken
+      );
+    }
+
+    // 可选的分号
+    if (this.peekTokenIs(token.SEMICOLON)) {
+      this.nextToken();
+    }
+
+    const stmt =
+      stmtToken.Type === token.BREAK
+        ? new ast.BreakStatement(stmtToken)
+        : new ast.ContinueStatement(stmtToken);
+    return this.finishNode(stmt, stmtToken.Span?.start);
   }
 
   /**
@@ -321,29 +826,36 @@ export class Parser {
       this.nextToken();
     }
 
-    return new ast.ExpressionStatement(stmtToken, expression);
+    return this.finishNode(
+      new ast.ExpressionStatement(stmtToken, expression),
+      stmtToken.Span?.start
+    );
   }
 
   /**
    * 解析代码块
    * 格式：{ <statement>* }
    */
-  private parseBlockStatement(): ast.BlockStatement {
+  public parseBlockStatement(): ast.BlockStatement {
     const block = new ast.BlockStatement(this.curToken);
     block.statements = [];
 
     this.nextToken();
+    this.blockDepth++;
 
     // 持续解析语句直到遇到右花括号或文件结束
     while (!this.curTokenIs(token.RBRACE) && !this.curTokenIs(token.EOF)) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        block.statements.push(stmt);
+      block.statements.push(this.parseStatement());
+      if (this.blockEndedByError) {
+        this.blockEndedByError = false;
+        break;
       }
       this.nextToken();
     }
 
-    return block;
+    this.blockDepth--;
+
+    return this.finishNode(block, block.token.Span?.start);
   }
 
   /**
@@ -354,7 +866,7 @@ export class Parser {
    * 
    * @param precedence - 当前表达式的优先级
    */
-  private parseExpression(precedence: Precedence): ast.Expression | null {
+  public parseExpression(precedence: number): ast.Expression | null {
     // 查找前缀解析函数
     const prefix = this.prefixParseFns.get(this.curToken.Type);
     if (!prefix) {
@@ -395,36 +907,103 @@ export class Parser {
    * 解析标识符
    */
   private parseIdentifier(): ast.Expression {
-    return new ast.Identifier(this.curToken, this.curToken.Literal);
+    return this.finishNode(
+      new ast.Identifier(this.curToken, this.curToken.Literal),
+      this.curToken.Span?.start
+    );
   }
 
   /**
    * 解析整数字面量
+   * 支持十进制以及0x、0b、0o前缀，并忽略数字间的下划线分隔符
    */
   private parseIntegerLiteral(): ast.Expression | null {
-    const value = parseInt(this.curToken.Literal, 10);
+    const value = Number(this.curToken.Literal.replace(/_/g, ""));
     if (isNaN(value)) {
       const msg = `could not parse ${this.curToken.Literal} as integer`;
-      this.errors.push(msg);
+      this.addError("invalid-number", msg, this.curToken);
       return null;
     }
-    return new ast.IntegerLiteral(this.curToken, value);
+    return this.finishNode(
+      new ast.IntegerLiteral(this.curToken, value),
+      this.curToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析浮点数字面量
+   */
+  private parseFloatLiteral(): ast.Expression | null {
+    const value = Number(this.curToken.Literal.replace(/_/g, ""));
+    if (isNaN(value)) {
+      const msg = `could not parse ${this.curToken.Literal} as float`;
+      this.addError("invalid-number", msg, this.curToken);
+      return null;
+    }
+    return this.finishNode(
+      new ast.FloatLiteral(this.curToken, value),
+      this.curToken.Span?.start
+    );
   }
 
   /**
    * 解析字符串字面量
    */
   private parseStringLiteral(): ast.Expression {
-    return new ast.StringLiteral(this.curToken, this.curToken.Literal);
+    return this.finishNode(
+      new ast.StringLiteral(this.curToken, this.curToken.Literal),
+      this.curToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析插值字符串
+   * 格式：TEMPLATE_HEAD <expression> (TEMPLATE_MIDDLE <expression>)* TEMPLATE_TAIL
+   * 例如："Hello, ${name}!"
+   */
+  private parseInterpolatedString(): ast.Expression | null {
+    const str = new ast.InterpolatedString(this.curToken, [this.curToken.Literal]);
+
+    while (true) {
+      this.nextToken();
+
+      // ${} 中没有表达式
+      if (this.curTokenIs(token.TEMPLATE_MIDDLE) || this.curTokenIs(token.TEMPLATE_TAIL)) {
+        this.addError(
+          "empty-interpolation",
+          "empty expression in string interpolation",
+          this.curToken
+        );
+        return null;
+      }
+
+      const exp = this.parseExpression(Precedence.LOWEST);
+      if (!exp) {
+        return null;
+      }
+      str.expressions.push(exp);
+
+      if (this.peekTokenIs(token.TEMPLATE_MIDDLE)) {
+        this.nextToken();
+        str.strings.push(this.curToken.Literal);
+        continue;
+      }
+
+      if (!this.expectPeek(token.TEMPLATE_TAIL)) {
+        return null;
+      }
+      str.strings.push(this.curToken.Literal);
+      return this.finishNode(str, str.token.Span?.start);
+    }
   }
 
   /**
    * 解析布尔值
    */
   private parseBoolean(): ast.Expression {
-    return new ast.BooleanLiteral(
-      this.curToken,
-      this.curTokenIs(token.TRUE)
+    return this.finishNode(
+      new ast.BooleanLiteral(this.curToken, this.curTokenIs(token.TRUE)),
+      this.curToken.Span?.start
     );
   }
 
@@ -439,7 +1018,7 @@ export class Parser {
       return null;
     }
     array.elements = elements;
-    return array;
+    return this.finishNode(array, array.token.Span?.start);
   }
 
   /**
@@ -479,17 +1058,17 @@ export class Parser {
       }
     }
 
-    if (!this.expectPeek(token.RBRACE)) {
+    if (!this.expectPeek(token.RBRACE, hash.token)) {
       return null;
     }
 
-    return hash;
+    return this.finishNode(hash, hash.token.Span?.start);
   }
 
   /**
    * 解析前缀表达式
    * 格式：<operator><expression>
-   * 例如：-5, !true
+   * 例如：-5, !true, ~mask
    */
   private parsePrefixExpression(): ast.Expression | null {
     const exprToken = this.curToken;
@@ -502,7 +1081,10 @@ export class Parser {
       return null;
     }
 
-    return new ast.PrefixExpression(exprToken, operator, right);
+    return this.finishNode(
+      new ast.PrefixExpression(exprToken, operator, right),
+      exprToken.Span?.start
+    );
   }
 
   /**
@@ -510,20 +1092,29 @@ export class Parser {
    * 格式：(<expression>)
    */
   private parseGroupedExpression(): ast.Expression | null {
+    const lparen = this.curToken;
+
     this.nextToken();
 
     const exp = this.parseExpression(Precedence.LOWEST);
+    if (!exp) {
+      return null;
+    }
 
-    if (!this.expectPeek(token.RPAREN)) {
+    if (!this.expectPeek(token.RPAREN, lparen)) {
       return null;
     }
 
-    return exp;
+    // 分组表达式没有单独的节点，让内部表达式的范围把括号也包括进来
+    return this.finishNode(exp, lparen.Span?.start);
   }
 
   /**
    * 解析if表达式
    * 格式：if (<condition>) { <consequence> } else { <alternative> }
+   * 或者：if (<condition>) { <consequence> } else if (<condition>) { ... } ...
+   *
+   * else if 递归解析为嵌套的IfExpression，作为外层if的alternative
    */
   private parseIfExpression(): ast.Expression | null {
     const exprToken = this.curToken;
@@ -531,6 +1122,7 @@ export class Parser {
     if (!this.expectPeek(token.LPAREN)) {
       return null;
     }
+    const lparen = this.curToken;
 
     this.nextToken();
     
@@ -540,7 +1132,7 @@ export class Parser {
       return null;
     }
 
-    if (!this.expectPeek(token.RPAREN)) {
+    if (!this.expectPeek(token.RPAREN, lparen)) {
       return null;
     }
 
@@ -551,20 +1143,33 @@ export class Parser {
     // 解析consequence块
     const consequence = this.parseBlockStatement();
 
-    let alternative: ast.BlockStatement | undefined;
+    let alternative: ast.BlockStatement | ast.IfExpression | undefined;
     
-    // 检查是否有else块
+    // 检查是否有else块或else if
     if (this.peekTokenIs(token.ELSE)) {
       this.nextToken();
 
-      if (!this.expectPeek(token.LBRACE)) {
-        return null;
-      }
+      if (this.peekTokenIs(token.IF)) {
+        this.nextToken();
 
-      alternative = this.parseBlockStatement();
+        const elseIf = this.parseIfExpression();
+        if (!elseIf) {
+          return null;
+        }
+        alternative = elseIf as ast.IfExpression;
+      } else {
+        if (!this.expectPeek(token.LBRACE)) {
+          return null;
+        }
+
+        alternative = this.parseBlockStatement();
+      }
     }
 
-    return new ast.IfExpression(exprToken, condition, consequence, alternative);
+    return this.finishNode(
+      new ast.IfExpression(exprToken, condition, consequence, alternative),
+      exprToken.Span?.start
+    );
   }
 
   /**
@@ -578,8 +1183,10 @@ export class Parser {
       return null;
     }
 
-    // 解析参数列表
-    const parameters = this.parseFunctionParameters();
+    // 解析参数列表，参数可以是解构模式
+    const parameters = this.parseFunctionParameters(() =>
+      this.parseBindingTarget()
+    );
     if (parameters === null) {
       return null;
     }
@@ -588,44 +1195,404 @@ export class Parser {
       return null;
     }
 
-    // 解析函数体
+    // 解析函数体，函数体中不能使用外层循环的break和continue
+    const outerLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
     const body = this.parseBlockStatement();
+    this.loopDepth = outerLoopDepth;
 
     const func = new ast.FunctionLiteral(litToken, body);
     func.parameters = parameters;
-    return func;
+    return this.finishNode(func, litToken.Span?.start);
+  }
+
+  /**
+   * 解析宏字面量
+   * 格式：macro(<parameters>) { <body> }
+   */
+  private parseMacroLiteral(): ast.Expression | null {
+    const litToken = this.curToken;
+
+    if (!this.expectPeek(token.LPAREN)) {
+      return null;
+    }
+
+    // 宏的参数是未求值的AST，只能是标识符
+    const parameters = this.parseFunctionParameters(() =>
+      this.parseParameter()
+    );
+    if (parameters === null) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.LBRACE)) {
+      return null;
+    }
+
+    // 和函数体一样，宏体中不能使用外层循环的break和continue
+    const outerLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    const body = this.parseBlockStatement();
+    this.loopDepth = outerLoopDepth;
+
+    const macro = new ast.MacroLiteral(litToken, body);
+    macro.parameters = parameters;
+    return this.finishNode(macro, litToken.Span?.start);
   }
 
   /**
    * 解析函数参数列表
-   * 格式：(<identifier>, <identifier>, ...)
+   * 格式：(<parameter>, <parameter>, ...)
+   *
+   * @param parseItem - 解析单个参数的函数，解析失败时返回null
    */
-  private parseFunctionParameters(): ast.Identifier[] | null {
-    const identifiers: ast.Identifier[] = [];
+  private parseFunctionParameters<T>(
+    parseItem: () => T | null
+  ): T[] | null {
+    const lparen = this.curToken;
+    const parameters: T[] = [];
 
     // 空参数列表
     if (this.peekTokenIs(token.RPAREN)) {
       this.nextToken();
-      return identifiers;
+      return parameters;
     }
 
     this.nextToken();
 
     // 第一个参数
-    identifiers.push(new ast.Identifier(this.curToken, this.curToken.Literal));
+    const first = parseItem();
+    if (first === null) {
+      return null;
+    }
+    parameters.push(first);
 
-    // 其余参数
+    // 其余参数，最后一个参数后面可以有逗号
     while (this.peekTokenIs(token.COMMA)) {
+      this.nextToken();
+      if (this.peekTokenIs(token.RPAREN)) {
+        break;
+      }
+      this.nextToken();
+      const param = parseItem();
+      if (param === null) {
+        return null;
+      }
+      parameters.push(param);
+    }
+
+    if (!this.expectPeek(token.RPAREN, lparen)) {
+      return null;
+    }
+
+    return parameters;
+  }
+
+  /**
+   * 解析绑定目标：标识符，或者用于解构的数组模式、哈希表模式
+   * 用于let语句和函数参数
+   */
+  private parseBindingTarget(): ast.BindingTarget | null {
+    if (this.curTokenIs(token.LBRACKET)) {
+      return this.parseArrayPattern();
+    }
+    if (this.curTokenIs(token.LBRACE)) {
+      return this.parseHashPattern();
+    }
+    return this.parseParameter();
+  }
+
+  /**
+   * 解析单个函数参数
+   */
+  private parseParameter(): ast.Identifier {
+    return this.finishNode(
+      new ast.Identifier(this.curToken, this.curToken.Literal),
+      this.curToken.Span?.start
+    );
+  }
+
+  // ==================== 模式匹配 ====================
+
+  /**
+   * 解析match表达式
+   * 格式：match (<expression>) { <arm>, <arm>, ... }
+   * 例如：match (x) { 0 => "zero", n if n < 0 => "negative", _ => "positive" }
+   *
+   * 分支之间用逗号分隔，最后一个分支后的逗号可以省略
+   * 解析完成后检查永远不会被匹配到的分支，并记录警告
+   */
+  private parseMatchExpression(): ast.Expression | null {
+    const exprToken = this.curToken;
+
+    if (!this.expectPeek(token.LPAREN)) {
+      return null;
+    }
+    const lparen = this.curToken;
+
+    this.nextToken();
+
+    const subject = this.parseExpression(Precedence.LOWEST);
+    if (!subject) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.RPAREN, lparen)) {
+      return null;
+    }
+
+    if (!this.expectPeek(token.LBRACE)) {
+      return null;
+    }
+    const lbrace = this.curToken;
+
+    const match = new ast.MatchExpression(exprToken, subject);
+
+    while (!this.peekTokenIs(token.RBRACE)) {
+      this.nextToken();
+
+      const arm = this.parseMatchArm();
+      if (!arm) {
+        return null;
+      }
+      match.arms.push(arm);
+
+      if (!this.peekTokenIs(token.RBRACE) && !this.expectPeek(token.COMMA)) {
+        return null;
+      }
+    }
+
+    if (!this.expectPeek(token.RBRACE, lbrace)) {
+      return null;
+    }
+
+    this.checkUnreachableArms(match.arms);
+
+    return this.finishNode(match, exprToken.Span?.start);
+  }
+
+  /**
+   * 解析match表达式的一个分支
+   * 格式：<pattern> [if <guard>] => <expression>
+   */
+  private parseMatchArm(): ast.MatchArm | null {
+    const armToken = this.curToken;
+
+    const pattern = this.parsePattern();
+    if (!pattern) {
+      return null;
+    }
+
+    // 可选的守卫条件
+    let guard: ast.Expression | undefined;
+    if (this.peekTokenIs(token.IF)) {
       this.nextToken();
       this.nextToken();
-      identifiers.push(new ast.Identifier(this.curToken, this.curToken.Literal));
+
+      const condition = this.parseExpression(Precedence.LOWEST);
+      if (!condition) {
+        return null;
+      }
+      guard = condition;
+    }
+
+    if (!this.expectPeek(token.ARROW)) {
+      return null;
     }
 
-    if (!this.expectPeek(token.RPAREN)) {
+    this.nextToken();
+
+    const body = this.parseExpression(Precedence.LOWEST);
+    if (!body) {
       return null;
     }
 
-    return identifiers;
+    return this.finishNode(
+      new ast.MatchArm(armToken, pattern, body, guard),
+      armToken.Span?.start
+    );
+  }
+
+  /**
+   * 解析模式
+   * 支持：通配符 _、变量绑定、字面量、数组模式和哈希表模式
+   */
+  private parsePattern(): ast.Pattern | null {
+    const patternToken = this.curToken;
+    const start = patternToken.Span?.start;
+
+    switch (patternToken.Type) {
+      case token.IDENT: {
+        if (patternToken.Literal === "_") {
+          return this.finishNode(new ast.WildcardPattern(patternToken), start);
+        }
+        const name = this.parseParameter();
+        return this.finishNode(
+          new ast.IdentifierPattern(patternToken, name),
+          start
+        );
+      }
+
+      case token.LBRACKET:
+        return this.parseArrayPattern();
+
+      case token.LBRACE:
+        return this.parseHashPattern();
+
+      default: {
+        const value = this.parsePatternLiteral();
+        if (!value) {
+          return null;
+        }
+        return this.finishNode(
+          new ast.LiteralPattern(patternToken, value),
+          start
+        );
+      }
+    }
+  }
+
+  /**
+   * 解析模式中的字面量（字面量模式的值或哈希表模式的键）
+   * 只接受整数、浮点数、字符串和布尔值字面量，数字前面可以有负号
+   */
+  private parsePatternLiteral(): ast.Expression | null {
+    const literalToken = this.curToken;
+
+    switch (literalToken.Type) {
+      case token.INT:
+        return this.parseIntegerLiteral();
+      case token.FLOAT:
+        return this.parseFloatLiteral();
+      case token.STRING:
+        return this.parseStringLiteral();
+      case token.TRUE:
+      case token.FALSE:
+        return this.parseBoolean();
+      case token.MINUS: {
+        if (!this.peekTokenIs(token.INT) && !this.peekTokenIs(token.FLOAT)) {
+          break;
+        }
+        this.nextToken();
+
+        const number = this.curTokenIs(token.INT)
+          ? this.parseIntegerLiteral()
+          : this.parseFloatLiteral();
+        if (!number) {
+          return null;
+        }
+
+        return this.finishNode(
+          new ast.PrefixExpression(literalToken, "-", number),
+          literalToken.Span?.start
+        );
+      }
+    }
+
+    this.addError(
+      "expected-pattern",
+      `expected pattern, got ${literalToken.Type} instead`,
+      literalToken
+    );
+    return null;
+  }
+
+  /**
+   * 解析数组模式
+   * 格式：[<pattern>, <pattern>, ...<identifier>]
+   * 剩余元素 ...rest 只能出现在最后
+   */
+  private parseArrayPattern(): ast.ArrayPattern | null {
+    const pattern = new ast.ArrayPattern(this.curToken);
+
+    while (!this.peekTokenIs(token.RBRACKET)) {
+      this.nextToken();
+
+      // 剩余元素，之后必须是 ]
+      if (this.curTokenIs(token.ELLIPSIS)) {
+        if (!this.expectPeek(token.IDENT)) {
+          return null;
+        }
+        pattern.rest = this.parseParameter();
+        break;
+      }
+
+      const element = this.parsePattern();
+      if (!element) {
+        return null;
+      }
+      pattern.elements.push(element);
+
+      if (!this.peekTokenIs(token.RBRACKET) && !this.expectPeek(token.COMMA)) {
+        return null;
+      }
+    }
+
+    if (!this.expectPeek(token.RBRACKET, pattern.token)) {
+      return null;
+    }
+
+    return this.finishNode(pattern, pattern.token.Span?.start);
+  }
+
+  /**
+   * 解析哈希表模式
+   * 格式：{<literal>: <pattern>, ...}
+   */
+  private parseHashPattern(): ast.HashPattern | null {
+    const pattern = new ast.HashPattern(this.curToken);
+
+    while (!this.peekTokenIs(token.RBRACE)) {
+      this.nextToken();
+
+      const key = this.parsePatternLiteral();
+      if (!key) {
+        return null;
+      }
+
+      if (!this.expectPeek(token.COLON)) {
+        return null;
+      }
+
+      this.nextToken();
+
+      const value = this.parsePattern();
+      if (!value) {
+        return null;
+      }
+
+      pattern.pairs.set(key, value);
+
+      if (!this.peekTokenIs(token.RBRACE) && !this.expectPeek(token.COMMA)) {
+        return null;
+      }
+    }
+
+    if (!this.expectPeek(token.RBRACE, pattern.token)) {
+      return null;
+    }
+
+    return this.finishNode(pattern, pattern.token.Span?.start);
+  }
+
+  /**
+   * 检查永远不会被匹配到的分支
+   * 如果前面某个没有守卫条件的分支已经能匹配所有会被当前分支匹配的值，当前分支就不可达
+   */
+  private checkUnreachableArms(arms: ast.MatchArm[]): void {
+    arms.forEach((arm, i) => {
+      const covering = arms
+        .slice(0, i)
+        .find(
+          (prev) => !prev.guard && patternCovers(prev.pattern, arm.pattern)
+        );
+
+      if (covering) {
+        this.addWarning("unreachable-match-arm", "unreachable match arm", arm, [
+          { message: "already matched by this arm", span: covering.span },
+        ]);
+      }
+    });
   }
 
   // ==================== 中缀解析函数 ====================
@@ -634,12 +1601,18 @@ export class Parser {
    * 解析中缀表达式
    * 格式：<expression> <operator> <expression>
    * 例如：5 + 3, x * y
+   *
+   * ** 是右结合的：解析右侧时把优先级降低一级，让右侧的 ** 先结合
+   * 这样 2 ** 3 ** 2 会被解析为 2 ** (3 ** 2)
    */
   private parseInfixExpression(left: ast.Expression): ast.Expression | null {
     const exprToken = this.curToken;
     const operator = this.curToken.Literal;
 
-    const precedence = this.curPrecedence();
+    let precedence = this.curPrecedence();
+    if (exprToken.Type === token.POWER) {
+      precedence--;
+    }
     this.nextToken();
     
     const right = this.parseExpression(precedence);
@@ -647,7 +1620,47 @@ export class Parser {
       return null;
     }
 
-    return new ast.InfixExpression(exprToken, left, operator, right);
+    return this.finishNode(
+      new ast.InfixExpression(exprToken, left, operator, right),
+      left.span?.start
+    );
+  }
+
+  /**
+   * 解析赋值表达式
+   * 格式：<target> <assign-operator> <expression>
+   * 例如：x = 5, count += 1, arr[0] = 1, hash["key"] += 1
+   *
+   * 赋值是右结合的：a = b = 1 会被解析为 a = (b = 1)
+   * 赋值目标只能是标识符或索引表达式，其他表达式（如 1 = 2）会报告错误
+   */
+  private parseAssignExpression(target: ast.Expression): ast.Expression | null {
+    const exprToken = this.curToken;
+    const operator = this.curToken.Literal;
+
+    if (
+      !(target instanceof ast.Identifier) &&
+      !(target instanceof ast.IndexExpression)
+    ) {
+      this.addError(
+        "invalid-assignment-target",
+        `invalid assignment target: ${target.toString()}`,
+        exprToken
+      );
+      return null;
+    }
+
+    this.nextToken();
+
+    const value = this.parseExpression(Precedence.ASSIGN - 1);
+    if (!value) {
+      return null;
+    }
+
+    return this.finishNode(
+      new ast.AssignExpression(exprToken, target, operator, value),
+      target.span?.start
+    );
   }
 
   /**
@@ -661,7 +1674,7 @@ export class Parser {
       return null;
     }
     exp.args = args;
-    return exp;
+    return this.finishNode(exp, func.span?.start);
   }
 
   /**
@@ -678,11 +1691,14 @@ export class Parser {
       return null;
     }
 
-    if (!this.expectPeek(token.RBRACKET)) {
+    if (!this.expectPeek(token.RBRACKET, exprToken)) {
       return null;
     }
 
-    return new ast.IndexExpression(exprToken, left, index);
+    return this.finishNode(
+      new ast.IndexExpression(exprToken, left, index),
+      left.span?.start
+    );
   }
 
   /**
@@ -692,6 +1708,7 @@ export class Parser {
    * @param end - 结束Token类型
    */
   private parseExpressionList(end: token.TokenType): ast.Expression[] | null {
+    const opening = this.curToken;
     const list: ast.Expression[] = [];
 
     // 空列表
@@ -709,9 +1726,12 @@ export class Parser {
     }
     list.push(firstExpr);
 
-    // 其余表达式
+    // 其余表达式，最后一个表达式后面可以有逗号
     while (this.peekTokenIs(token.COMMA)) {
       this.nextToken();
+      if (this.peekTokenIs(end)) {
+        break;
+      }
       this.nextToken();
       const expr = this.parseExpression(Precedence.LOWEST);
       if (!expr) {
@@ -720,7 +1740,7 @@ export class Parser {
       list.push(expr);
     }
 
-    if (!this.expectPeek(end)) {
+    if (!this.expectPeek(end, opening)) {
       return null;
     }
 
@@ -728,3 +1748,59 @@ export class Parser {
   }
 }
 
+/**
+ * 是否是左括号（( [ {），用于统计未闭合的括号
+ */
+function isOpeningBracket(type: token.TokenType): boolean {
+  return (
+    type === token.LPAREN || type === token.LBRACKET || type === token.LBRACE
+  );
+}
+
+/**
+ * 是否是右括号（) ] }）
+ */
+function isClosingBracket(type: token.TokenType): boolean {
+  return (
+    type === token.RPAREN || type === token.RBRACKET || type === token.RBRACE
+  );
+}
+
+/**
+ * 检查模式a是否能匹配所有被模式b匹配的值
+ * 只做保守的判断：返回true时一定覆盖，返回false时不一定不覆盖
+ */
+function patternCovers(a: ast.Pattern, b: ast.Pattern): boolean {
+  // 通配符和变量绑定匹配任何值
+  if (a instanceof ast.WildcardPattern || a instanceof ast.IdentifierPattern) {
+    return true;
+  }
+
+  if (a instanceof ast.LiteralPattern && b instanceof ast.LiteralPattern) {
+    return a.toString() === b.toString();
+  }
+
+  if (a instanceof ast.ArrayPattern && b instanceof ast.ArrayPattern) {
+    // a没有剩余元素时，只覆盖长度完全相同的数组
+    if (!a.rest && (b.rest || a.elements.length !== b.elements.length)) {
+      return false;
+    }
+    return (
+      b.elements.length >= a.elements.length &&
+      a.elements.every((p, i) => patternCovers(p, b.elements[i]))
+    );
+  }
+
+  if (a instanceof ast.HashPattern && b instanceof ast.HashPattern) {
+    // a中的每个键都必须出现在b中，并且对应的值模式被覆盖
+    const bPairs = new Map<string, ast.Pattern>();
+    b.pairs.forEach((value, key) => bPairs.set(key.toString(), value));
+
+    return Array.from(a.pairs).every(([key, value]) => {
+      const other = bPairs.get(key.toString());
+      return other !== undefined && patternCovers(value, other);
+    });
+  }
+
+  return false;
+}
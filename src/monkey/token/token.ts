@@ -23,26 +23,53 @@ export const EOF = "EOF";          // 文件结束标记，表示源代码的末
 // 标识符和字面量
 export const IDENT = "IDENT";      // 标识符，如变量名：add, foobar, x, y 等
 export const INT = "INT";          // 整数字面量，如：1343456
+export const FLOAT = "FLOAT";      // 浮点数字面量，如：3.14、1e-9
 export const STRING = "STRING";    // 字符串字面量，如："foobar"
 
+// 带插值的字符串会被拆分成多个片段，片段之间是嵌入的表达式
+// 例如 "a${x}b${y}c" 会被拆分为：TEMPLATE_HEAD(a) x TEMPLATE_MIDDLE(b) y TEMPLATE_TAIL(c)
+export const TEMPLATE_HEAD = "TEMPLATE_HEAD";      // 从开始引号到第一个 ${ 的片段
+export const TEMPLATE_MIDDLE = "TEMPLATE_MIDDLE";  // 从 } 到下一个 ${ 的片段
+export const TEMPLATE_TAIL = "TEMPLATE_TAIL";      // 从最后一个 } 到结束引号的片段
+
 // 运算符
 export const ASSIGN = "=";         // 赋值运算符
+export const PLUS_ASSIGN = "+=";   // 加法复合赋值运算符
+export const MINUS_ASSIGN = "-=";  // 减法复合赋值运算符
+export const ASTERISK_ASSIGN = "*="; // 乘法复合赋值运算符
+export const SLASH_ASSIGN = "/=";  // 除法复合赋值运算符
 export const PLUS = "+";           // 加法运算符
 export const MINUS = "-";          // 减法运算符或负号
 export const BANG = "!";           // 逻辑非运算符
 export const ASTERISK = "*";       // 乘法运算符
 export const SLASH = "/";          // 除法运算符
+export const PERCENT = "%";        // 取模运算符
+export const POWER = "**";         // 幂运算符（右结合）
+
+export const BIT_AND = "&";        // 按位与运算符
+export const BIT_OR = "|";         // 按位或运算符
+export const BIT_XOR = "^";        // 按位异或运算符
+export const TILDE = "~";          // 按位取反运算符
+export const SHL = "<<";           // 左移运算符
+export const SHR = ">>";           // 右移运算符（算术右移）
 
 export const LT = "<";             // 小于运算符
 export const GT = ">";             // 大于运算符
+export const LT_EQ = "<=";         // 小于等于运算符
+export const GT_EQ = ">=";         // 大于等于运算符
 
 export const EQ = "==";            // 相等比较运算符
 export const NOT_EQ = "!=";        // 不等比较运算符
 
+export const AND = "&&";           // 逻辑与运算符（短路求值）
+export const OR = "||";            // 逻辑或运算符（短路求值）
+
 // 分隔符
 export const COMMA = ",";          // 逗号，用于分隔参数或数组元素
 export const SEMICOLON = ";";      // 分号，用于语句结束标记
 export const COLON = ":";          // 冒号，用于哈希表键值对
+export const ARROW = "=>";         // 箭头，用于分隔match分支的模式和结果
+export const ELLIPSIS = "...";     // 省略号，用于数组模式中的剩余元素
 
 export const LPAREN = "(";         // 左圆括号，用于函数调用或分组表达式
 export const RPAREN = ")";         // 右圆括号
@@ -59,6 +86,47 @@ export const FALSE = "FALSE";      // 布尔值 false
 export const IF = "IF";            // 条件语句关键字 if
 export const ELSE = "ELSE";        // 条件语句关键字 else
 export const RETURN = "RETURN";    // 返回语句关键字 return
+export const WHILE = "WHILE";      // 循环语句关键字 while
+export const FOR = "FOR";          // 循环语句关键字 for
+export const IN = "IN";            // for循环中的关键字 in
+export const BREAK = "BREAK";      // 跳出循环关键字 break
+export const CONTINUE = "CONTINUE"; // 进入下一次循环关键字 continue
+export const MACRO = "MACRO";      // 宏定义关键字 macro
+export const MATCH = "MATCH";      // 模式匹配关键字 match
+
+/**
+ * Position接口
+ * 表示源代码中的一个位置
+ *
+ * line和column从1开始计数，column按Unicode字符计数
+ * offset是从0开始的字符偏移量（即输入字符串的下标，按UTF-16代码单元计数），可直接用于slice
+ */
+export interface Position {
+  line: number;       // 行号（从1开始）
+  column: number;     // 列号（从1开始）
+  offset: number;     // 字符偏移量（从0开始）
+}
+
+/**
+ * Span接口
+ * 表示源代码中的一段范围，start包含在内，end不包含在内（指向范围之后的第一个字符）
+ */
+export interface Span {
+  start: Position;    // 起始位置
+  end: Position;      // 结束位置（不包含）
+}
+
+/**
+ * Comment接口
+ * 表示源代码中的一条注释
+ * - line：行注释，// 开始到行尾
+ * - block：块注释，/* 与 *\/ 之间的内容
+ */
+export interface Comment {
+  kind: "line" | "block";  // 注释的种类
+  text: string;            // 注释的原始文本，包括 // 或 /* *\/ 本身
+  span: Span;              // 注释在源代码中的位置
+}
 
 /**
  * Token接口
@@ -67,6 +135,20 @@ export const RETURN = "RETURN";    // 返回语句关键字 return
 export interface Token {
   Type: TokenType;    // Token的类型，如IDENT、INT、PLUS等
   Literal: string;    // Token的字面量值，即源代码中的原始字符串
+  Span?: Span;        // Token在源代码中的位置，由Lexer填写；手工构造的Token可以省略
+  Trivia?: Comment[]; // 出现在该Token之前的注释，只有Lexer开启keepComments时才会填写
+}
+
+/**
+ * 将位置格式化为 "行:列" 的形式
+ *
+ * @example
+ * ```typescript
+ * formatPosition({ line: 3, column: 7, offset: 20 })  // 返回 "3:7"
+ * ```
+ */
+export function formatPosition(pos: Position): string {
+  return `${pos.line}:${pos.column}`;
 }
 
 /**
@@ -82,6 +164,13 @@ const keywords: Record<string, TokenType> = {
   "if": IF,            // 条件判断
   "else": ELSE,        // 条件分支
   "return": RETURN,    // 返回语句
+  "while": WHILE,      // while循环
+  "for": FOR,          // for循环
+  "in": IN,            // for循环中的in
+  "break": BREAK,      // 跳出循环
+  "continue": CONTINUE, // 进入下一次循环
+  "macro": MACRO,      // 宏定义
+  "match": MATCH,      // 模式匹配
 };
 
 /**
@@ -111,3 +200,98 @@ export function lookupIdent(ident: string): TokenType {
   return IDENT;
 }
 
+/**
+ * 注册新的关键字
+ * 
+ * 用于在不修改Lexer的情况下扩展语言，注册之后该单词不再是普通标识符
+ * 已经存在的关键字会被覆盖
+ * 
+ * @returns 取消注册的函数，调用后恢复注册之前的状态
+ * 
+ * @example
+ * ```typescript
+ * const unregister = registerKeyword("unless", "UNLESS");
+ * lookupIdent("unless")  // 返回 "UNLESS"
+ * unregister();
+ * lookupIdent("unless")  // 返回 "IDENT"
+ * ```
+ */
+export function registerKeyword(word: string, type: TokenType): () => void {
+  const previous = Object.hasOwn(keywords, word) ? keywords[word] : undefined;
+  keywords[word] = type;
+
+  return () => {
+    // 之后又被重新注册为其他类型时不恢复，避免覆盖后来的注册
+    if (keywords[word] !== type) {
+      return;
+    }
+    if (previous === undefined) {
+      delete keywords[word];
+    } else {
+      keywords[word] = previous;
+    }
+  };
+}
+
+/**
+ * 自定义运算符表
+ * 将通过registerOperator注册的运算符字面量映射到对应的TokenType
+ */
+const operators = new Map<string, TokenType>();
+
+/**
+ * 注册新的运算符
+ * 
+ * Lexer会优先识别自定义运算符（多个运算符都能匹配时取最长的），
+ * 因此注册 "|>" 之后，"|>" 不会再被识别为 | 和 >
+ * 运算符不能以字母、数字、下划线、空白或引号开头，否则会和标识符、数字、字符串冲突
+ * 
+ * @returns 取消注册的函数，调用后恢复注册之前的状态
+ * 
+ * @example
+ * ```typescript
+ * const unregister = registerOperator("|>", "PIPE");
+ * ```
+ */
+export function registerOperator(
+  literal: string,
+  type: TokenType
+): () => void {
+  if (literal === "" || /^[\p{L}\p{N}_\s"]/u.test(literal)) {
+    throw new Error(`invalid operator: '${literal}'`);
+  }
+  const previous = operators.get(literal);
+  operators.set(literal, type);
+
+  return () => {
+    if (operators.get(literal) !== type) {
+      return;
+    }
+    if (previous === undefined) {
+      operators.delete(literal);
+    } else {
+      operators.set(literal, previous);
+    }
+  };
+}
+
+/**
+ * 查找从input的offset处开始的最长的自定义运算符
+ * 
+ * @returns 匹配到的运算符字面量和TokenType，没有匹配时返回null
+ */
+export function lookupOperator(
+  input: string,
+  offset: number
+): { literal: string; type: TokenType } | null {
+  let match: { literal: string; type: TokenType } | null = null;
+  operators.forEach((type, literal) => {
+    if (
+      input.startsWith(literal, offset) &&
+      (!match || literal.length > match.literal.length)
+    ) {
+      match = { literal, type };
+    }
+  });
+  return match;
+}
@@ -8,13 +8,18 @@ import './styles.css'
 import { Lexer } from '../monkey/lexer/lexer'
 import { Parser } from '../monkey/parser/parser'
 import { evalNode } from '../monkey/evaluator/evaluator'
+import { defineMacros, expandMacros } from '../monkey/evaluator/macro'
 import { Environment } from '../monkey/object/environment'
 import { builtins } from '../monkey/evaluator/builtins'
 import * as obj from '../monkey/object/object'
+import { formatPosition } from '../monkey/token/token'
 
 // 全局环境，在页面生命周期内保持状态
 const globalEnv = new Environment()
 
+// 宏环境，保存已经定义的宏
+const macroEnv = new Environment()
+
 /**
  * 覆盖 write 函数，使其能在页面输出区域显示内容
  */
@@ -93,6 +98,35 @@ write("年龄:", person["age"]);
 write("语言:", person["language"]);
 
 person;`,
+
+  loop: `
+let fruits = ["apple", "banana", "cherry"];
+for (fruit in fruits) {
+  write("水果:", fruit);
+}
+
+let person = {"name": "Monkey", "age": 5};
+for (key in person) {
+  write(key, "=>", person[key]);
+}
+
+let i = 3;
+while (i > 0) {
+  write("倒计时:", i);
+  i -= 1;
+}
+i;`,
+
+  macro: `
+let unless = macro(condition, consequence, alternative) {
+  quote(if (!(unquote(condition))) {
+    unquote(consequence);
+  } else {
+    unquote(alternative);
+  });
+};
+
+unless(10 > 5, write("不大于"), write("大于"));`,
 }
 
 /**
@@ -123,8 +157,12 @@ function executeCode(code: string): {
       }
     }
 
-    // 执行代码
-    const evaluated = evalNode(program, globalEnv)
+    // 展开宏，然后执行代码
+    const expanded = expandMacros(defineMacros(program, macroEnv), macroEnv)
+    const evaluated =
+      expanded instanceof obj.ErrorObject
+        ? expanded
+        : evalNode(expanded, globalEnv)
 
     if (evaluated === null) {
       return {
@@ -133,12 +171,15 @@ function executeCode(code: string): {
       }
     }
 
-    // 检查是否是错误对象
-    if (evaluated.type() === 'ERROR') {
+    // 检查是否是错误对象，有位置信息时以 "行:列: " 开头
+    if (evaluated instanceof obj.ErrorObject) {
+      const position = evaluated.span
+        ? `${formatPosition(evaluated.span.start)}: `
+        : ''
       return {
         success: false,
         result: evaluated.inspect(),
-        errors: [evaluated.inspect()],
+        errors: [position + evaluated.inspect()],
       }
     }
 